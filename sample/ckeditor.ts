@@ -53,6 +53,8 @@ ClassicEditor
 		],
 		toolbar: [
 			'fileUpload',
+			'fileUploadManager',
+			'fileAttachmentList',
 			'|',
 			'heading',
 			'|',
@@ -75,6 +77,10 @@ ClassicEditor
 			'undo',
 			'redo'
 		],
+		fileUploader: {
+			fileTypes: [ 'pdf', 'docx', 'xlsx', 'zip', 'png', 'jpeg' ],
+			imageHandling: 'ask'
+		},
 		image: {
 			toolbar: [
 				'imageStyle:inline',
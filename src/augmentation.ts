@@ -1,7 +1,55 @@
-import type { FileUploader } from './index';
+import type { FileUploader, FileUploadAdapter, FileUploaderConfig } from './index';
+import type FileUploadEditing from './fileuploadediting';
+import type FileUploadProgress from './fileuploadprogress';
+import type FileUploadUI from './fileuploadui';
+import type FileUploadManagerUI from './fileuploadmanagerui';
+import type FileAttachmentUI from './fileattachmentui';
+import type FileAttachmentToolbar from './fileattachmenttoolbar';
+import type FileAttachmentRepository from './fileattachmentrepository';
+import type FileAttachmentListUI from './fileattachmentlistui';
+import type FileUploadPersistence from './fileuploadpersistence';
+import type FileUploadDropTarget from './fileuploaddroptarget';
+import type UploadFileCommand from './uploadfilecommand';
+import type RetryFileUploadCommand from './retryfileuploadcommand';
+import type CancelFileUploadCommand from './cancelfileuploadcommand';
+import type RenameFileAttachmentCommand from './renamefileattachmentcommand';
+import type ReplaceFileAttachmentCommand from './replacefileattachmentcommand';
+import type RemoveFileAttachmentCommand from './removefileattachmentcommand';
+import type InsertFileFromUrlCommand from './insertfilefromurlcommand';
 
 declare module '@ckeditor/ckeditor5-core' {
+	interface EditorConfig {
+
+		/**
+		 * The configuration of the file uploader feature.
+		 *
+		 * Read more in {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig}.
+		 */
+		fileUploader?: FileUploaderConfig;
+	}
+
 	interface PluginsMap {
 		[ FileUploader.pluginName ]: FileUploader;
+		[ FileUploadAdapter.pluginName ]: FileUploadAdapter;
+		[ FileUploadEditing.pluginName ]: FileUploadEditing;
+		[ FileUploadProgress.pluginName ]: FileUploadProgress;
+		[ FileUploadUI.pluginName ]: FileUploadUI;
+		[ FileUploadManagerUI.pluginName ]: FileUploadManagerUI;
+		[ FileAttachmentUI.pluginName ]: FileAttachmentUI;
+		[ FileAttachmentToolbar.pluginName ]: FileAttachmentToolbar;
+		[ FileAttachmentRepository.pluginName ]: FileAttachmentRepository;
+		[ FileAttachmentListUI.pluginName ]: FileAttachmentListUI;
+		[ FileUploadPersistence.pluginName ]: FileUploadPersistence;
+		[ FileUploadDropTarget.pluginName ]: FileUploadDropTarget;
+	}
+
+	interface CommandsMap {
+		uploadFile: UploadFileCommand;
+		retryFileUpload: RetryFileUploadCommand;
+		cancelFileUpload: CancelFileUploadCommand;
+		renameFileAttachment: RenameFileAttachmentCommand;
+		replaceFileAttachment: ReplaceFileAttachmentCommand;
+		removeFileAttachment: RemoveFileAttachmentCommand;
+		insertFileFromUrl: InsertFileFromUrlCommand;
 	}
 }
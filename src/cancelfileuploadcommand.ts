@@ -0,0 +1,52 @@
+/**
+ * @module file-uploader/cancelfileuploadcommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+
+import { isFileAttachment } from './utils';
+
+/**
+ * The cancel file upload command.
+ *
+ * The command is registered by the {@link module:file-uploader/fileuploadediting~FileUploadEditing} plugin as `cancelFileUpload`.
+ * It aborts an upload in progress (or discards a failed upload) and removes the file attachment from the content:
+ *
+ * ```ts
+ * // Cancel the upload of the selected file attachment.
+ * editor.execute( 'cancelFileUpload' );
+ *
+ * // Cancel an upload by its id.
+ * editor.execute( 'cancelFileUpload', { uploadId } );
+ * ```
+ *
+ * The command is enabled when there is at least one upload in progress or a failed upload in the content.
+ */
+export default class CancelFileUploadCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		this.isEnabled = this.editor.plugins.get( 'FileUploadEditing' ).hasActiveUpload();
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @fires execute
+	 * @param options Options for the executed command.
+	 * @param options.uploadId The id of the upload. Defaults to the upload of the selected file attachment.
+	 */
+	public override execute( options: { uploadId?: string } = {} ): void {
+		const selectedElement = this.editor.model.document.selection.getSelectedElement();
+		let uploadId = options.uploadId;
+
+		if ( !uploadId && isFileAttachment( selectedElement ) ) {
+			uploadId = selectedElement.getAttribute( 'uploadId' ) as string | undefined;
+		}
+
+		if ( uploadId ) {
+			this.editor.plugins.get( 'FileUploadEditing' ).cancelUpload( uploadId );
+		}
+	}
+}
@@ -0,0 +1,449 @@
+/**
+ * @module file-uploader/chunkedupload
+ */
+
+/* globals XMLHttpRequest, FormData, URL, TextEncoder, btoa */
+
+import type { FileLoader, UploadResponse } from 'ckeditor5/src/upload';
+import { uid } from 'ckeditor5/src/utils';
+
+import type { FileUploadAdapterConfig } from './fileuploaderconfig';
+import { getFileMetadata } from './utils';
+
+/**
+ * The default size of a chunk in bytes (5 MB).
+ */
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+/**
+ * The version of the tus protocol.
+ */
+const TUS_VERSION = '1.0.0';
+
+/**
+ * Uploads a file in chunks, using either the default chunked protocol or the
+ * [tus](https://tus.io/protocols/resumable-upload) resumable upload protocol.
+ *
+ * The default protocol sends each chunk as a separate request to the upload URL. Each request contains the configured
+ * form fields, the chunk in the file field, the `X-Upload-Id` header identifying the upload and the
+ * `Content-Range: bytes <start>-<end>/<total>` header. The server responds to the last chunk as to a regular upload.
+ * When an upload is resumed, the number of bytes received so far is queried with a `GET` request with the `X-Upload-Id`
+ * header, to which the server should respond with `{ "offset": <bytes> }`. If the server already received the whole file,
+ * the upload is finished with a request without the chunk, with the `Content-Range: bytes *\/<total>` header.
+ *
+ * The tus protocol uses the core protocol with the creation extension. The URL of the uploaded file is the tus upload URL.
+ */
+export default class ChunkedUpload {
+	/**
+	 * The file loader of the upload. It is updated with the upload progress.
+	 */
+	public readonly loader: FileLoader;
+
+	/**
+	 * The uploaded file.
+	 */
+	public readonly file: File;
+
+	/**
+	 * The configuration of the upload adapter.
+	 */
+	private readonly _options: FileUploadAdapterConfig;
+
+	/**
+	 * The headers sent with every request.
+	 */
+	private readonly _headers: Record<string, string>;
+
+	/**
+	 * The server-side identifiers of the resumable uploads of the editor.
+	 */
+	private readonly _uploadIds: ChunkedUploadIds;
+
+	/**
+	 * The key of the file in the {@link #_uploadIds}, or `null` if the upload cannot be resumed.
+	 */
+	private _fileKey: string | null = null;
+
+	/**
+	 * The request in progress.
+	 */
+	private _xhr?: XMLHttpRequest;
+
+	/**
+	 * Whether the upload was aborted.
+	 */
+	private _isAborted = false;
+
+	/**
+	 * Creates a new chunked upload.
+	 *
+	 * @param loader The file loader of the upload.
+	 * @param file The uploaded file.
+	 * @param options The configuration of the upload adapter.
+	 * @param headers The headers sent with every request.
+	 * @param uploadIds The server-side identifiers of the resumable uploads of the editor.
+	 */
+	constructor(
+		loader: FileLoader,
+		file: File,
+		options: FileUploadAdapterConfig,
+		headers: Record<string, string>,
+		uploadIds: ChunkedUploadIds
+	) {
+		this.loader = loader;
+		this.file = file;
+		this._options = options;
+		this._headers = headers;
+		this._uploadIds = uploadIds;
+	}
+
+	/**
+	 * The size of a single chunk in bytes.
+	 */
+	public get chunkSize(): number {
+		return this._options.chunked && this._options.chunked.chunkSize || DEFAULT_CHUNK_SIZE;
+	}
+
+	/**
+	 * Starts (or resumes) the upload.
+	 *
+	 * @returns A promise resolved with the server response, rejected with an error message if the upload failed.
+	 */
+	public async start(): Promise<UploadResponse> {
+		const isTus = this._options.chunked!.protocol == 'tus';
+		const fileKey = getFileKey( this.file );
+		const activeKeys = this._uploadIds.activeKeys;
+
+		// The upload of an identical file in progress is not shared, this one starts from zero and cannot be resumed.
+		this._fileKey = activeKeys.has( fileKey ) ? null : fileKey;
+
+		if ( this._fileKey ) {
+			activeKeys.add( this._fileKey );
+		}
+
+		try {
+			const response = isTus ? await this._uploadWithTus() : await this._uploadWithContentRange();
+
+			this._setUploadId( null );
+
+			return response;
+		} catch ( error ) {
+			// An aborted upload is not resumed.
+			if ( this._isAborted ) {
+				this._setUploadId( null );
+			}
+
+			throw error;
+		} finally {
+			if ( this._fileKey ) {
+				activeKeys.delete( this._fileKey );
+			}
+		}
+	}
+
+	/**
+	 * Aborts the upload. Unlike a failed upload, it is not resumed by a new upload of the same file.
+	 */
+	public abort(): void {
+		this._isAborted = true;
+
+		if ( this._xhr ) {
+			this._xhr.abort();
+		}
+	}
+
+	/**
+	 * Uploads the file using the default protocol.
+	 */
+	private async _uploadWithContentRange(): Promise<UploadResponse> {
+		const file = this.file;
+		const uploadUrl = this._options.uploadUrl;
+		let uploadId = this._getUploadId();
+		let offset = 0;
+
+		if ( uploadId ) {
+			const xhr = await this._send( 'GET', uploadUrl, { 'X-Upload-Id': uploadId }, null, true );
+			const response = xhr.response as ChunkedUploadResponse | null;
+
+			// The server does not know the upload (anymore), start from zero.
+			offset = xhr.status < 400 && response && response.offset || 0;
+		} else {
+			uploadId = uid();
+			this._setUploadId( uploadId );
+		}
+
+		let response: ChunkedUploadResponse | null = null;
+
+		// The whole file was received before the upload was resumed, only the response to the last chunk is missing.
+		if ( offset >= file.size ) {
+			const xhr = this._checkResponse( await this._send( this._options.method || 'POST', uploadUrl, {
+				'X-Upload-Id': uploadId,
+				'Content-Range': `bytes */${ file.size }`
+			}, this._createFormData( null ), true ) );
+
+			response = xhr.response as ChunkedUploadResponse | null;
+		}
+
+		while ( offset < file.size ) {
+			const end = Math.min( offset + this.chunkSize, file.size );
+			const xhr = this._checkResponse( await this._send( this._options.method || 'POST', uploadUrl, {
+				'X-Upload-Id': uploadId,
+				'Content-Range': `bytes ${ offset }-${ end - 1 }/${ file.size }`
+			}, this._createFormData( file.slice( offset, end ) ), true, offset ) );
+
+			response = xhr.response as ChunkedUploadResponse | null;
+
+			// The server can report the number of received bytes to synchronize the offset.
+			offset = end < file.size && response && typeof response.offset == 'number' ? response.offset : end;
+		}
+
+		if ( !response ) {
+			throw `Couldn't upload file: ${ file.name }.`;
+		}
+
+		return normalizeResponse( response );
+	}
+
+	/**
+	 * Uploads the file using the tus protocol.
+	 */
+	private async _uploadWithTus(): Promise<UploadResponse> {
+		const file = this.file;
+		let uploadUrl = this._getUploadId();
+		let offset = 0;
+
+		if ( uploadUrl ) {
+			const xhr = await this._send( 'HEAD', uploadUrl, { 'Tus-Resumable': TUS_VERSION }, null, false );
+
+			if ( xhr.status < 400 ) {
+				offset = parseInt( xhr.getResponseHeader( 'Upload-Offset' ) || '0' );
+			} else {
+				// The upload expired on the server, create a new one.
+				uploadUrl = undefined;
+			}
+		}
+
+		if ( !uploadUrl ) {
+			const xhr = this._checkResponse( await this._send( 'POST', this._options.uploadUrl, {
+				'Tus-Resumable': TUS_VERSION,
+				'Upload-Length': String( file.size ),
+				'Upload-Metadata': Object.entries( { filename: file.name, filetype: file.type, ...getFileMetadata( file ) } )
+					.map( ( [ key, value ] ) => `${ key } ${ encodeBase64( value ) }` )
+					.join( ',' )
+			}, null, false ) );
+
+			uploadUrl = new URL( xhr.getResponseHeader( 'Location' )!, xhr.responseURL || this._options.uploadUrl ).href;
+			this._setUploadId( uploadUrl );
+		}
+
+		while ( offset < file.size ) {
+			const end = Math.min( offset + this.chunkSize, file.size );
+			const xhr = this._checkResponse( await this._send( 'PATCH', uploadUrl, {
+				'Tus-Resumable': TUS_VERSION,
+				'Upload-Offset': String( offset ),
+				'Content-Type': 'application/offset+octet-stream'
+			}, file.slice( offset, end ), false, offset ) );
+
+			offset = parseInt( xhr.getResponseHeader( 'Upload-Offset' ) || String( end ) );
+		}
+
+		return { urls: { default: uploadUrl } };
+	}
+
+	/**
+	 * Creates the form data of a request of the default protocol, with the configured fields and the chunk of the file.
+	 *
+	 * @param chunk The chunk of the file, or `null` for a request without the file.
+	 */
+	private _createFormData( chunk: Blob | null ): FormData {
+		const file = this.file;
+		const data = new FormData();
+		const fields = {
+			...typeof this._options.fields == 'function' ? this._options.fields( file ) : this._options.fields,
+			...getFileMetadata( file )
+		};
+
+		for ( const [ name, value ] of Object.entries( fields ) ) {
+			data.append( name, value );
+		}
+
+		if ( chunk ) {
+			data.append( this._options.fieldName || 'upload', chunk, file.name );
+		}
+
+		return data;
+	}
+
+	/**
+	 * Returns the server-side identifier of the resumed upload of the file.
+	 */
+	private _getUploadId(): string | undefined {
+		return this._fileKey ? this._uploadIds.ids.get( this._fileKey ) : undefined;
+	}
+
+	/**
+	 * Remembers the server-side identifier of the upload, so it can be resumed. It is forgotten if `null` is passed.
+	 */
+	private _setUploadId( uploadId: string | null ): void {
+		if ( !this._fileKey ) {
+			return;
+		}
+
+		if ( uploadId ) {
+			this._uploadIds.ids.set( this._fileKey, uploadId );
+		} else {
+			this._uploadIds.ids.delete( this._fileKey );
+		}
+	}
+
+	/**
+	 * Sends a single request and resolves with it when it is loaded. The promise is rejected
+	 * when the request could not be sent or the upload was aborted.
+	 *
+	 * @param method The HTTP method.
+	 * @param url The request URL.
+	 * @param headers The request specific headers.
+	 * @param body The request body.
+	 * @param isJson Whether a JSON response is expected.
+	 * @param offset The number of bytes of the file uploaded before this request. Used for the progress reporting.
+	 */
+	private _send(
+		method: string,
+		url: string,
+		headers: Record<string, string>,
+		body: XMLHttpRequestBodyInit | null,
+		isJson: boolean,
+		offset?: number
+	): Promise<XMLHttpRequest> {
+		return new Promise( ( resolve, reject ) => {
+			if ( this._isAborted ) {
+				return reject();
+			}
+
+			const xhr = this._xhr = new XMLHttpRequest();
+			const loader = this.loader;
+
+			xhr.open( method, url, true );
+
+			if ( isJson ) {
+				xhr.responseType = 'json';
+			}
+
+			for ( const [ name, value ] of Object.entries( { ...this._headers, ...headers } ) ) {
+				xhr.setRequestHeader( name, value );
+			}
+
+			xhr.withCredentials = this._options.withCredentials || false;
+
+			xhr.addEventListener( 'error', () => reject( `Couldn't upload file: ${ this.file.name }.` ) );
+			xhr.addEventListener( 'abort', () => reject() );
+			xhr.addEventListener( 'load', () => resolve( xhr ) );
+
+			if ( offset !== undefined && xhr.upload ) {
+				xhr.upload.addEventListener( 'progress', evt => {
+					loader.uploadTotal = this.file.size;
+					loader.uploaded = Math.min( offset + evt.loaded, this.file.size );
+				} );
+			}
+
+			xhr.send( body );
+		} );
+	}
+
+	/**
+	 * Throws the error message of a failed request.
+	 */
+	private _checkResponse( xhr: XMLHttpRequest ): XMLHttpRequest {
+		const response = xhr.responseType == 'json' ? xhr.response as ChunkedUploadResponse | null : null;
+
+		if ( xhr.status >= 400 || response && response.error ) {
+			throw response && response.error && response.error.message ?
+				response.error.message :
+				`Couldn't upload file: ${ this.file.name }.`;
+		}
+
+		return xhr;
+	}
+}
+
+/**
+ * Normalizes the response of the server the same way as for a regular upload.
+ */
+export function normalizeResponse( response: ChunkedUploadResponse ): UploadResponse {
+	const urls = response.url ? { default: response.url } : response.urls;
+
+	// Resolve with the normalized `urls` property and pass the rest of the response
+	// to allow customizing the behavior of features relying on the upload adapters.
+	return {
+		...response,
+		urls
+	};
+}
+
+/**
+ * Returns the key identifying the file in the resumable uploads. The same file picked again is a different `File` object,
+ * so its properties are used.
+ */
+function getFileKey( file: File ): string {
+	return `${ file.name }:${ file.type }:${ file.size }:${ file.lastModified }`;
+}
+
+/**
+ * Encodes a string with Base64, as required by the tus `Upload-Metadata` header.
+ */
+function encodeBase64( value: string ): string {
+	return btoa( String.fromCharCode( ...new TextEncoder().encode( value ) ) );
+}
+
+/**
+ * The server-side identifiers of the files uploaded in chunks: the upload id sent in the `X-Upload-Id` header
+ * or the tus upload URL. They are kept by the {@link module:file-uploader/fileuploadadapter~FileUploadAdapter} plugin of an editor
+ * until the upload is finished or aborted, so a failed upload of the same file (e.g. a retry after a dropped connection,
+ * or the file picked again) resumes instead of starting from zero. The files are identified by their name, type,
+ * size and modification time.
+ */
+export type ChunkedUploadIds = {
+
+	/**
+	 * The identifiers of the uploads by the keys of the files.
+	 */
+	ids: Map<string, string>;
+
+	/**
+	 * The keys of the files being uploaded. Their uploads are not resumed by another upload of the same file.
+	 */
+	activeKeys: Set<string>;
+};
+
+/**
+ * The JSON response of the server to an upload request, or to a request of the default chunked protocol.
+ */
+export type ChunkedUploadResponse = {
+
+	/**
+	 * The URL of the uploaded file.
+	 */
+	url?: string;
+
+	/**
+	 * The URLs of the uploaded file, e.g. of its different versions. The `default` URL is used.
+	 */
+	urls?: Record<string, string>;
+
+	/**
+	 * The number of bytes of the file received by the server.
+	 */
+	offset?: number;
+
+	/**
+	 * The error of a failed upload.
+	 */
+	error?: {
+		message?: string;
+	};
+
+	/**
+	 * Other data of the upload, e.g. mapped to the file attachment attributes with `config.fileUploader.responseMapping`.
+	 */
+	[ key: string ]: unknown;
+};
@@ -0,0 +1,226 @@
+/**
+ * @module file-uploader/converters
+ */
+
+import type {
+	DowncastWriter,
+	Element,
+	ViewContainerElement,
+	ViewElement
+} from 'ckeditor5/src/engine';
+import type { Locale } from 'ckeditor5/src/utils';
+import { toWidget } from 'ckeditor5/src/widget';
+
+import {
+	createFileTypeMatcher,
+	formatFileSize,
+	getFileAttachmentFileType,
+	getFileTypeCategory,
+	getFileTypeLabel,
+	getViewElementText,
+	type FileTypeCategory
+} from './utils';
+
+import fileIcon from '../theme/icons/file.svg';
+import filePdfIcon from '../theme/icons/file-pdf.svg';
+import fileWordIcon from '../theme/icons/file-word.svg';
+import fileSpreadsheetIcon from '../theme/icons/file-spreadsheet.svg';
+import fileArchiveIcon from '../theme/icons/file-archive.svg';
+import fileImageIcon from '../theme/icons/file-image.svg';
+import fileAudioIcon from '../theme/icons/file-audio.svg';
+import fileVideoIcon from '../theme/icons/file-video.svg';
+
+/**
+ * Model attributes of a file attachment that are reflected in the data output.
+ */
+export const FILE_ATTACHMENT_ATTRIBUTES = [ 'linkHref', 'fileName', 'fileSize', 'fileType', 'fileId', 'fileRenamed' ];
+
+/**
+ * The icons of the file attachments by the {@link module:file-uploader/utils~FileTypeCategory file type categories}.
+ */
+export const FILE_TYPE_ICONS: Record<FileTypeCategory, string> = {
+	pdf: filePdfIcon,
+	word: fileWordIcon,
+	spreadsheet: fileSpreadsheetIcon,
+	archive: fileArchiveIcon,
+	image: fileImageIcon,
+	audio: fileAudioIcon,
+	video: fileVideoIcon,
+	generic: fileIcon
+};
+
+/**
+ * Creates the data view structure of a file attachment.
+ *
+ * An inline attachment is represented by a link:
+ *
+ * ```html
+ * <a class="file-attachment" href="..." data-file-size="2411724" data-file-type="application/pdf" data-file-id="42">Report.pdf</a>
+ * ```
+ *
+ * A block attachment wraps the same link in a block element:
+ *
+ * ```html
+ * <div class="file-attachment-block"><a class="file-attachment" href="...">Report.pdf</a></div>
+ * ```
+ *
+ * With the `fileTypeClass` option, the link has also the class of its file type category, e.g. `file-type-pdf`.
+ * The label changed by the user is marked with the `data-file-renamed` attribute, so it is kept when the file is replaced.
+ *
+ * @param writer The downcast writer.
+ * @param modelElement The `fileAttachment` or `fileAttachmentInline` model element.
+ * @param options.fileTypeClass Whether to add the class of the file type category to the link.
+ */
+export function createFileAttachmentViewElement(
+	writer: DowncastWriter,
+	modelElement: Element,
+	options: { fileTypeClass?: boolean } = {}
+): ViewContainerElement {
+	const attributes: Record<string, string> = {
+		class: 'file-attachment',
+		href: String( modelElement.getAttribute( 'linkHref' ) || '' )
+	};
+
+	if ( options.fileTypeClass ) {
+		attributes.class += ' file-type-' + getFileTypeCategory( getFileAttachmentFileType( modelElement ).type );
+	}
+
+	if ( modelElement.hasAttribute( 'fileSize' ) ) {
+		attributes[ 'data-file-size' ] = String( modelElement.getAttribute( 'fileSize' ) );
+	}
+
+	if ( modelElement.hasAttribute( 'fileType' ) ) {
+		attributes[ 'data-file-type' ] = String( modelElement.getAttribute( 'fileType' ) );
+	}
+
+	if ( modelElement.hasAttribute( 'fileId' ) ) {
+		attributes[ 'data-file-id' ] = String( modelElement.getAttribute( 'fileId' ) );
+	}
+
+	if ( modelElement.getAttribute( 'fileRenamed' ) ) {
+		attributes[ 'data-file-renamed' ] = 'true';
+	}
+
+	const link = writer.createContainerElement( 'a', attributes, [
+		writer.createText( String( modelElement.getAttribute( 'fileName' ) || '' ) )
+	] );
+
+	if ( modelElement.is( 'element', 'fileAttachmentInline' ) ) {
+		return link;
+	}
+
+	return writer.createContainerElement( 'div', { class: 'file-attachment-block' }, [ link ] );
+}
+
+/**
+ * Creates the editing view widget of a file attachment. It renders a card with the file type icon, the file name, type and size.
+ *
+ * @param writer The downcast writer.
+ * @param modelElement The `fileAttachment` or `fileAttachmentInline` model element.
+ * @param locale The editor locale used to translate the widget label.
+ * @param icon The SVG icon of the file type (see {@link ~createFileIconGetter}).
+ */
+export function createFileAttachmentWidget(
+	writer: DowncastWriter,
+	modelElement: Element,
+	locale: Locale,
+	icon: string
+): ViewContainerElement {
+	const t = locale.t;
+	const isInline = modelElement.is( 'element', 'fileAttachmentInline' );
+	const fileName = String( modelElement.getAttribute( 'fileName' ) || '' );
+	const iconClass = 'ck-file-attachment__icon_' + getFileTypeCategory( getFileAttachmentFileType( modelElement ).type );
+	const details = [
+		getFileTypeLabel( String( modelElement.getAttribute( 'fileType' ) || '' ) ),
+		modelElement.hasAttribute( 'fileSize' ) ? formatFileSize( modelElement.getAttribute( 'fileSize' ) as number ) : ''
+	].filter( Boolean ).join( ', ' );
+
+	const container = writer.createContainerElement( isInline ? 'span' : 'div', {
+		class: [ 'ck-file-attachment', isInline ? 'ck-file-attachment_inline' : 'ck-file-attachment_block' ]
+	}, [
+		writer.createUIElement( 'span', { class: [ 'ck-file-attachment__icon', iconClass ] }, function( domDocument ) {
+			const domElement = this.toDomElement( domDocument );
+
+			domElement.innerHTML = icon;
+
+			return domElement;
+		} ),
+		writer.createContainerElement( 'span', { class: 'ck-file-attachment__name' }, [ writer.createText( fileName ) ] ),
+		writer.createContainerElement( 'span', { class: 'ck-file-attachment__details' }, [ writer.createText( details ) ] )
+	] );
+
+	return toWidget( container, writer, { label: t( 'File attachment: %0', [ fileName ] ) } );
+}
+
+/**
+ * Creates a function returning the icon of a file attachment. The custom icons can be given for the
+ * {@link module:file-uploader/utils~FileTypeCategory file type categories} (replacing the default icons) and for
+ * the file types in the format of {@link module:file-uploader/utils~createFileTypeMatcher} (taking precedence over the categories).
+ *
+ * @param customIcons The custom SVG icons by the file type categories or the file types.
+ */
+export function createFileIconGetter( customIcons: Record<string, string> ): ( modelElement: Element ) => string {
+	const icons: Record<string, string> = { ...FILE_TYPE_ICONS, ...customIcons };
+	const fileTypeIcons = Object.keys( customIcons )
+		.filter( type => !( type in FILE_TYPE_ICONS ) )
+		.map( type => ( { isMatching: createFileTypeMatcher( [ type ] ), icon: customIcons[ type ] } ) );
+
+	return modelElement => {
+		const file = getFileAttachmentFileType( modelElement );
+		const fileTypeIcon = fileTypeIcons.find( ( { isMatching } ) => isMatching( file ) );
+
+		return fileTypeIcon ? fileTypeIcon.icon : icons[ getFileTypeCategory( file.type ) ];
+	};
+}
+
+/**
+ * Reads the model attributes of a file attachment from its data view link (`<a class="file-attachment">`).
+ *
+ * @param viewLink The view link element.
+ */
+export function getFileAttachmentAttributes( viewLink: ViewElement ): Record<string, unknown> {
+	const attributes: Record<string, unknown> = {
+		linkHref: viewLink.getAttribute( 'href' ) || '',
+		fileName: getViewElementText( viewLink )
+	};
+
+	const fileSize = parseInt( viewLink.getAttribute( 'data-file-size' ) || '' );
+
+	if ( Number.isFinite( fileSize ) ) {
+		attributes.fileSize = fileSize;
+	}
+
+	if ( viewLink.hasAttribute( 'data-file-type' ) ) {
+		attributes.fileType = viewLink.getAttribute( 'data-file-type' );
+	}
+
+	if ( viewLink.hasAttribute( 'data-file-id' ) ) {
+		attributes.fileId = viewLink.getAttribute( 'data-file-id' );
+	}
+
+	if ( viewLink.hasAttribute( 'data-file-renamed' ) ) {
+		attributes.fileRenamed = true;
+	}
+
+	// Set on the pasted links to local files that are going to be uploaded.
+	if ( viewLink.hasAttribute( 'uploadId' ) ) {
+		attributes.uploadId = viewLink.getAttribute( 'uploadId' );
+	}
+
+	return attributes;
+}
+
+/**
+ * Returns the file attachment link nested in a block attachment view element (`<div class="file-attachment-block">`).
+ *
+ * @param viewElement The block attachment view element.
+ */
+export function getFileAttachmentViewLink( viewElement: ViewElement ): ViewElement | null {
+	for ( const child of viewElement.getChildren() ) {
+		if ( child.is( 'element', 'a' ) && child.hasClass( 'file-attachment' ) ) {
+			return child;
+		}
+	}
+
+	return null;
+}
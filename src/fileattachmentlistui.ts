@@ -0,0 +1,127 @@
+/**
+ * @module file-uploader/fileattachmentlistui
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { addListToDropdown, createDropdown, ViewModel, type DropdownView, type ListDropdownItemDefinition } from 'ckeditor5/src/ui';
+import type { Element } from 'ckeditor5/src/engine';
+import { Collection } from 'ckeditor5/src/utils';
+
+import FileAttachmentRepository from './fileattachmentrepository';
+import { formatFileSize } from './utils';
+
+/**
+ * The attachment list UI plugin.
+ *
+ * It registers the `'fileAttachmentList'` dropdown in the {@link module:ui/componentfactory~ComponentFactory UI component factory}.
+ * The dropdown lists all file attachments in the editor content in the document order. Clicking a file attachment
+ * selects it in the content.
+ */
+export default class FileAttachmentListUI extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ FileAttachmentRepository ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'FileAttachmentListUI' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		editor.ui.componentFactory.add( 'fileAttachmentList', locale => {
+			const dropdownView = createDropdown( locale );
+			const items = new Collection<ListDropdownItemDefinition>();
+
+			dropdownView.buttonView.set( {
+				label: t( 'Attachments' ),
+				tooltip: true,
+				withText: true
+			} );
+
+			addListToDropdown( dropdownView, items, { ariaLabel: t( 'Attachments' ) } );
+
+			// The list is only needed when the dropdown is open, so it is not updated on every change of the content.
+			dropdownView.on( 'change:isOpen', () => {
+				if ( dropdownView.isOpen ) {
+					this._refreshList( items );
+				}
+			} );
+
+			dropdownView.on( 'execute', evt => {
+				this._selectAttachment( dropdownView, ( evt.source as ViewModel ).fileElement as Element );
+			} );
+
+			return dropdownView;
+		} );
+	}
+
+	/**
+	 * Lists the file attachments currently in the content.
+	 */
+	private _refreshList( items: Collection<ListDropdownItemDefinition> ): void {
+		const t = this.editor.t;
+		const attachments = this.editor.plugins.get( FileAttachmentRepository ).getAttachments();
+
+		items.clear();
+
+		if ( !attachments.length ) {
+			items.add( {
+				type: 'button',
+				model: new ViewModel( {
+					label: t( 'There are no attachments.' ),
+					withText: true,
+					isEnabled: false
+				} )
+			} );
+
+			return;
+		}
+
+		for ( const attachment of attachments ) {
+			const details = [ attachment.fileType, attachment.fileSize !== undefined ? formatFileSize( attachment.fileSize ) : '' ]
+				.filter( Boolean )
+				.join( ', ' );
+
+			items.add( {
+				type: 'button',
+				model: new ViewModel( {
+					label: details ? `${ attachment.fileName } (${ details })` : attachment.fileName,
+					withText: true,
+					fileElement: attachment.position.nodeAfter
+				} )
+			} );
+		}
+	}
+
+	/**
+	 * Selects the file attachment and scrolls it into view.
+	 */
+	private _selectAttachment( dropdownView: DropdownView, fileElement: Element ): void {
+		const editor = this.editor;
+
+		dropdownView.isOpen = false;
+
+		// The file attachment could have been removed while the dropdown was open.
+		if ( fileElement.root.rootName == '$graveyard' ) {
+			return;
+		}
+
+		editor.model.change( writer => {
+			writer.setSelection( fileElement, 'on' );
+		} );
+
+		editor.editing.view.focus();
+		editor.editing.view.scrollToTheSelection();
+	}
+}
@@ -0,0 +1,174 @@
+/**
+ * @module file-uploader/fileattachmentrenameformview
+ */
+
+import {
+	ButtonView,
+	FocusCycler,
+	LabeledFieldView,
+	View,
+	ViewCollection,
+	createLabeledInputText,
+	submitHandler,
+	type FocusableView,
+	type InputTextView
+} from 'ckeditor5/src/ui';
+import { FocusTracker, KeystrokeHandler, type Locale } from 'ckeditor5/src/utils';
+import { icons } from 'ckeditor5/src/core';
+
+import '../theme/fileattachmentrenameform.css';
+
+/**
+ * The form view used to change the label of a file attachment.
+ */
+export default class FileAttachmentRenameFormView extends View {
+	/**
+	 * Tracks information about the DOM focus in the form.
+	 */
+	public readonly focusTracker: FocusTracker;
+
+	/**
+	 * An instance of the {@link module:utils/keystrokehandler~KeystrokeHandler}.
+	 */
+	public readonly keystrokes: KeystrokeHandler;
+
+	/**
+	 * An input with a label.
+	 */
+	public labeledInput: LabeledFieldView<InputTextView>;
+
+	/**
+	 * A button used to submit the form.
+	 */
+	public saveButtonView: ButtonView;
+
+	/**
+	 * A button used to cancel the form.
+	 */
+	public cancelButtonView: ButtonView;
+
+	/**
+	 * A collection of views which can be focused in the form.
+	 */
+	private readonly _focusables: ViewCollection<FocusableView>;
+
+	/**
+	 * Helps cycling over {@link #_focusables} in the form.
+	 */
+	private readonly _focusCycler: FocusCycler;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale ) {
+		super( locale );
+
+		const t = this.locale!.t;
+
+		this.focusTracker = new FocusTracker();
+		this.keystrokes = new KeystrokeHandler();
+
+		this.labeledInput = new LabeledFieldView( this.locale, createLabeledInputText );
+		this.labeledInput.label = t( 'File label' );
+
+		this.saveButtonView = this._createButton( t( 'Save' ), icons.check, 'ck-button-save' );
+		this.saveButtonView.type = 'submit';
+
+		this.cancelButtonView = this._createButton( t( 'Cancel' ), icons.cancel, 'ck-button-cancel', 'cancel' );
+
+		this._focusables = new ViewCollection();
+
+		this._focusCycler = new FocusCycler( {
+			focusables: this._focusables,
+			focusTracker: this.focusTracker,
+			keystrokeHandler: this.keystrokes,
+			actions: {
+				// Navigate form fields backwards using the Shift + Tab keystroke.
+				focusPrevious: 'shift + tab',
+
+				// Navigate form fields forwards using the Tab key.
+				focusNext: 'tab'
+			}
+		} );
+
+		this.setTemplate( {
+			tag: 'form',
+
+			attributes: {
+				class: [
+					'ck',
+					'ck-file-attachment-rename-form',
+					'ck-responsive-form'
+				],
+
+				// https://github.com/ckeditor/ckeditor5-image/issues/40
+				tabindex: '-1'
+			},
+
+			children: [
+				this.labeledInput,
+				this.saveButtonView,
+				this.cancelButtonView
+			]
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		this.keystrokes.listenTo( this.element! );
+
+		submitHandler( { view: this } );
+
+		[ this.labeledInput, this.saveButtonView, this.cancelButtonView ].forEach( view => {
+			// Register the view as focusable.
+			this._focusables.add( view );
+
+			// Register the view in the focus tracker.
+			this.focusTracker.add( view.element! );
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		this.focusTracker.destroy();
+		this.keystrokes.destroy();
+	}
+
+	/**
+	 * Creates the button view.
+	 *
+	 * @param label The button label.
+	 * @param icon The button icon.
+	 * @param className The additional button CSS class name.
+	 * @param eventName The event name that the `ButtonView#execute` event will be delegated to.
+	 */
+	private _createButton( label: string, icon: string, className: string, eventName?: string ): ButtonView {
+		const button = new ButtonView( this.locale );
+
+		button.set( {
+			label,
+			icon,
+			tooltip: true
+		} );
+
+		button.extendTemplate( {
+			attributes: {
+				class: className
+			}
+		} );
+
+		if ( eventName ) {
+			button.delegate( 'execute' ).to( this, eventName );
+		}
+
+		return button;
+	}
+}
@@ -0,0 +1,390 @@
+/**
+ * @module file-uploader/fileattachmentrepository
+ */
+
+/* globals setTimeout, clearTimeout */
+
+import { Plugin, type Editor } from 'ckeditor5/src/core';
+import type { Batch, DocumentChangeEvent, Element, Item, Position } from 'ckeditor5/src/engine';
+
+import type { FileUploadCompleteEvent } from './fileuploadediting';
+import { isFileAttachment } from './utils';
+
+/**
+ * The file attachment repository plugin. It tracks the uploaded files in the editor content during the whole lifetime
+ * of the editor, including the files loaded with the editor data.
+ *
+ * A file is identified by its `fileId` (see {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#responseMapping})
+ * or its link. It can be linked in the content more than once, e.g. when a file attachment is copied. The
+ * {@link ~FileAttachmentRepository#event:fileAdded `fileAdded`} event is fired when a file appears in the content,
+ * and the {@link ~FileAttachmentRepository#event:fileRemoved `fileRemoved`} event when its last link is removed.
+ * A file whose removal is undone is added again.
+ *
+ * All file attachments in the content (including the files being uploaded) are returned by {@link #getAttachments}.
+ *
+ * When {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#deleteFile `config.fileUploader.deleteFile`} is set,
+ * it is called for the removed files after the configured delay, unless the file is added back in the meantime (e.g. by undo).
+ * Only the files uploaded in this editor are deleted, the files loaded with the editor data can still be linked
+ * in the saved document. The files removed in the non-undoable batches (e.g. when the editor data is replaced) are not deleted,
+ * and the removed files are not deleted when the editor is destroyed before the delay.
+ */
+export default class FileAttachmentRepository extends Plugin {
+	/**
+	 * The files in the content by their keys.
+	 */
+	private readonly _files: Map<string, { file: FileAttachmentData; elements: Set<Element> }>;
+
+	/**
+	 * The file attachment elements in the content.
+	 */
+	private readonly _fileElements: Set<Element>;
+
+	/**
+	 * The keys of the tracked file attachment elements.
+	 */
+	private readonly _elementKeys: Map<Element, string>;
+
+	/**
+	 * The removed files waiting to be deleted, with the timeouts of the deletion.
+	 */
+	private readonly _pendingDeletions: Map<string, { file: FileAttachmentData; timeout: ReturnType<typeof setTimeout> }>;
+
+	/**
+	 * The keys of the files uploaded in this editor.
+	 */
+	private readonly _uploadedKeys: Set<string>;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'FileAttachmentRepository' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		editor.config.define( 'fileUploader.deleteFileDelay', 60000 );
+
+		this._files = new Map();
+		this._fileElements = new Set();
+		this._elementKeys = new Map();
+		this._pendingDeletions = new Map();
+		this._uploadedKeys = new Set();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const doc = editor.model.document;
+
+		// Remember the files uploaded in this editor, after the default `uploadComplete` listener sets their attributes.
+		if ( editor.plugins.has( 'FileUploadEditing' ) ) {
+			const fileUploadEditing = editor.plugins.get( 'FileUploadEditing' );
+
+			this.listenTo<FileUploadCompleteEvent>( fileUploadEditing, 'uploadComplete', ( evt, { fileElement } ) => {
+				this._uploadedKeys.add( getFileKey( fileElement ) );
+			}, { priority: 'lowest' } );
+		}
+
+		this.listenTo<DocumentChangeEvent>( doc, 'change', ( evt, batch ) => {
+			const fileElements = new Set<Element>();
+
+			// The removed elements are inserted into the graveyard, so they are handled as the inserted ones.
+			for ( const entry of doc.differ.getChanges( { includeChangesInGraveyard: true } ) ) {
+				if ( entry.type == 'insert' && entry.position.nodeAfter ) {
+					getFileAttachments( editor, entry.position.nodeAfter ).forEach( fileElement => fileElements.add( fileElement ) );
+				} else if ( entry.type == 'attribute' ) {
+					for ( const item of entry.range.getItems() ) {
+						if ( isFileAttachment( item ) ) {
+							fileElements.add( item );
+						}
+					}
+				}
+			}
+
+			for ( const fileElement of fileElements ) {
+				this._updateFileElement( fileElement, batch );
+			}
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		// The removal of the files may not be saved, so they are not deleted.
+		for ( const { timeout } of this._pendingDeletions.values() ) {
+			clearTimeout( timeout );
+		}
+
+		this._pendingDeletions.clear();
+
+		super.destroy();
+	}
+
+	/**
+	 * Returns the uploaded files in the editor content.
+	 */
+	public getFiles(): Array<FileAttachmentData> {
+		return Array.from( this._files.values(), ( { file } ) => file );
+	}
+
+	/**
+	 * Returns all file attachments in the editor content in the document order, including the files being uploaded.
+	 */
+	public getAttachments(): Array<FileAttachmentInfo> {
+		const model = this.editor.model;
+		const rootNames = model.document.getRootNames();
+
+		return Array.from( this._fileElements, fileElement => {
+			const position = model.createPositionBefore( fileElement );
+
+			return {
+				...getFileAttachmentData( fileElement, getFileKey( fileElement ) ),
+				rootName: position.root.rootName!,
+				position
+			};
+		} ).sort( ( a, b ) => {
+			if ( a.rootName != b.rootName ) {
+				return rootNames.indexOf( a.rootName ) - rootNames.indexOf( b.rootName );
+			}
+
+			return a.position.isBefore( b.position ) ? -1 : 1;
+		} );
+	}
+
+	/**
+	 * Checks whether the file of the given key is in the editor content.
+	 *
+	 * @param key The `fileId` or the link of the file.
+	 */
+	public hasFile( key: string ): boolean {
+		return this._files.has( key );
+	}
+
+	/**
+	 * Updates the tracked files after the file attachment element was inserted, removed or changed.
+	 */
+	private _updateFileElement( fileElement: Element, batch: Batch ): void {
+		if ( isInContent( fileElement ) ) {
+			this._fileElements.add( fileElement );
+		} else {
+			this._fileElements.delete( fileElement );
+		}
+
+		const oldKey = this._elementKeys.get( fileElement );
+		const newKey = isUploadedFileInContent( fileElement ) ? getFileKey( fileElement ) : null;
+
+		if ( oldKey == newKey ) {
+			// The file attachment could have been renamed.
+			if ( newKey ) {
+				this._files.get( newKey )!.file = getFileAttachmentData( fileElement, newKey );
+			}
+
+			return;
+		}
+
+		if ( oldKey ) {
+			const entry = this._files.get( oldKey )!;
+
+			this._elementKeys.delete( fileElement );
+			entry.elements.delete( fileElement );
+
+			if ( !entry.elements.size ) {
+				this._files.delete( oldKey );
+				this.fire<FileAttachmentRemovedEvent>( 'fileRemoved', entry.file );
+				this._scheduleDeletion( entry.file, batch );
+			}
+		}
+
+		if ( newKey ) {
+			const entry = this._files.get( newKey );
+
+			this._elementKeys.set( fileElement, newKey );
+
+			if ( entry ) {
+				entry.elements.add( fileElement );
+			} else {
+				const file = getFileAttachmentData( fileElement, newKey );
+
+				this._files.set( newKey, { file, elements: new Set( [ fileElement ] ) } );
+				this._cancelDeletion( newKey );
+				this.fire<FileAttachmentAddedEvent>( 'fileAdded', file );
+			}
+		}
+	}
+
+	/**
+	 * Calls the `deleteFile` callback for the removed file after the configured delay. The file is deleted only if it was
+	 * uploaded in this editor and removed by the user, not e.g. when the editor data was replaced in a non-undoable batch.
+	 */
+	private _scheduleDeletion( file: FileAttachmentData, batch: Batch ): void {
+		const deleteFile = this.editor.config.get( 'fileUploader.deleteFile' );
+
+		if ( !deleteFile || !batch.isUndoable || !this._uploadedKeys.has( file.key ) ) {
+			return;
+		}
+
+		const timeout = setTimeout( () => {
+			this._pendingDeletions.delete( file.key );
+			deleteFile( file );
+		}, this.editor.config.get( 'fileUploader.deleteFileDelay' ) );
+
+		this._pendingDeletions.set( file.key, { file, timeout } );
+	}
+
+	/**
+	 * Cancels the deletion of a file that was added back to the content.
+	 */
+	private _cancelDeletion( key: string ): void {
+		const pendingDeletion = this._pendingDeletions.get( key );
+
+		if ( pendingDeletion ) {
+			clearTimeout( pendingDeletion.timeout );
+			this._pendingDeletions.delete( key );
+		}
+	}
+}
+
+/**
+ * Returns the file attachments in the changed item, including the item itself.
+ */
+function getFileAttachments( editor: Editor, item: Item ): Array<Element> {
+	return Array.from( editor.model.createRangeOn( item ).getItems() ).filter( isFileAttachment );
+}
+
+/**
+ * Checks whether the file attachment is in the editor content, i.e. in an attached root other than the graveyard.
+ */
+function isInContent( fileElement: Element ): boolean {
+	const root = fileElement.root;
+
+	return root.is( 'rootElement' ) && root.rootName != '$graveyard' && root.isAttached();
+}
+
+/**
+ * Checks whether the file attachment is an uploaded file (not being uploaded) in the editor content.
+ */
+function isUploadedFileInContent( fileElement: Element ): boolean {
+	return isInContent( fileElement ) && !!fileElement.getAttribute( 'linkHref' ) && !fileElement.hasAttribute( 'uploadId' );
+}
+
+/**
+ * Returns the key identifying the file of the file attachment: its `fileId` or its link.
+ */
+function getFileKey( fileElement: Element ): string {
+	return String( fileElement.getAttribute( 'fileId' ) || fileElement.getAttribute( 'linkHref' ) || '' );
+}
+
+/**
+ * Returns the data of the file of the file attachment.
+ */
+function getFileAttachmentData( fileElement: Element, key: string ): FileAttachmentData {
+	const file: FileAttachmentData = {
+		key,
+		linkHref: String( fileElement.getAttribute( 'linkHref' ) || '' ),
+		fileName: String( fileElement.getAttribute( 'fileName' ) || '' )
+	};
+
+	if ( fileElement.hasAttribute( 'fileId' ) ) {
+		file.fileId = String( fileElement.getAttribute( 'fileId' ) );
+	}
+
+	if ( fileElement.hasAttribute( 'fileSize' ) ) {
+		file.fileSize = fileElement.getAttribute( 'fileSize' ) as number;
+	}
+
+	if ( fileElement.hasAttribute( 'fileType' ) ) {
+		file.fileType = String( fileElement.getAttribute( 'fileType' ) );
+	}
+
+	return file;
+}
+
+/**
+ * An uploaded file tracked by the {@link ~FileAttachmentRepository}.
+ */
+export type FileAttachmentData = {
+
+	/**
+	 * The key identifying the file: its `fileId` or its link.
+	 */
+	key: string;
+
+	/**
+	 * The link of the file.
+	 */
+	linkHref: string;
+
+	/**
+	 * The label of the file attachment.
+	 */
+	fileName: string;
+
+	/**
+	 * The id of the file on the server.
+	 */
+	fileId?: string;
+
+	/**
+	 * The size of the file in bytes.
+	 */
+	fileSize?: number;
+
+	/**
+	 * The MIME type of the file.
+	 */
+	fileType?: string;
+};
+
+/**
+ * A file attachment in the editor content returned by {@link ~FileAttachmentRepository#getAttachments}.
+ * The `key` and `linkHref` are empty for a file being uploaded.
+ */
+export type FileAttachmentInfo = FileAttachmentData & {
+
+	/**
+	 * The name of the root containing the file attachment.
+	 */
+	rootName: string;
+
+	/**
+	 * The position before the file attachment element.
+	 */
+	position: Position;
+};
+
+/**
+ * An event fired when an uploaded file appears in the editor content, e.g. when a file upload is complete,
+ * a file attachment is pasted or its removal is undone.
+ *
+ * ```ts
+ * editor.plugins.get( 'FileAttachmentRepository' ).on( 'fileAdded', ( evt, file ) => {
+ * 	console.log( 'Added', file.linkHref );
+ * } );
+ * ```
+ *
+ * @eventName ~FileAttachmentRepository#fileAdded
+ * @param file The added file.
+ */
+export type FileAttachmentAddedEvent = {
+	name: 'fileAdded';
+	args: [ file: FileAttachmentData ];
+};
+
+/**
+ * An event fired when the last file attachment linking an uploaded file is removed from the editor content.
+ *
+ * @eventName ~FileAttachmentRepository#fileRemoved
+ * @param file The removed file.
+ */
+export type FileAttachmentRemovedEvent = {
+	name: 'fileRemoved';
+	args: [ file: FileAttachmentData ];
+};
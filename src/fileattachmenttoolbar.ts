@@ -0,0 +1,60 @@
+/**
+ * @module file-uploader/fileattachmenttoolbar
+ */
+
+import { Plugin, type Editor } from 'ckeditor5/src/core';
+import { WidgetToolbarRepository } from 'ckeditor5/src/widget';
+
+import FileAttachmentUI from './fileattachmentui';
+import { getSelectedFileAttachmentWidget } from './utils';
+
+/**
+ * The file attachment toolbar plugin. It creates and manages the file attachment toolbar (the toolbar displayed
+ * when a file attachment is selected).
+ *
+ * The toolbar items are configured with {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#toolbar}.
+ */
+export default class FileAttachmentToolbar extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ WidgetToolbarRepository, FileAttachmentUI ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'FileAttachmentToolbar' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		editor.config.define( 'fileUploader.toolbar', [
+			'renameFileAttachment',
+			'replaceFileAttachment',
+			'downloadFileAttachment',
+			'|',
+			'removeFileAttachment'
+		] );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public afterInit(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		editor.plugins.get( WidgetToolbarRepository ).register( 'fileAttachment', {
+			ariaLabel: t( 'File attachment toolbar' ),
+			items: editor.config.get( 'fileUploader.toolbar' )!,
+			getRelatedElement: getSelectedFileAttachmentWidget
+		} );
+	}
+}
@@ -0,0 +1,334 @@
+/**
+ * @module file-uploader/fileattachmentui
+ */
+
+/* globals window */
+
+import { Plugin, icons } from 'ckeditor5/src/core';
+import {
+	BalloonPanelView,
+	ButtonView,
+	ContextualBalloon,
+	CssTransitionDisablerMixin,
+	FileDialogButtonView,
+	clickOutsideHandler
+} from 'ckeditor5/src/ui';
+import type { Locale, PositionOptions } from 'ckeditor5/src/utils';
+
+import FileAttachmentRenameFormView from './fileattachmentrenameformview';
+import {
+	createFileTypeMatcher,
+	getFileTypeAcceptValue,
+	getSelectedFileAttachment,
+	getSelectedFileAttachmentWidget,
+	isSafeFileUrl
+} from './utils';
+import fileUploadIcon from '../theme/icons/file-arrow-up-solid.svg';
+import fileDownloadIcon from '../theme/icons/download-solid.svg';
+import fileRemoveIcon from '../theme/icons/trash-can-solid.svg';
+
+/**
+ * The file attachment UI plugin.
+ *
+ * It registers the buttons used in the {@link module:file-uploader/fileattachmenttoolbar~FileAttachmentToolbar file attachment toolbar}:
+ *
+ * * `'renameFileAttachment'` &ndash; shows a form in the {@link module:ui/panel/balloon/contextualballoon~ContextualBalloon}
+ * to change the label of the file,
+ * * `'replaceFileAttachment'` &ndash; opens the file dialog and uploads the picked file in place of the selected one,
+ * * `'downloadFileAttachment'` &ndash; opens the uploaded file in a new tab,
+ * * `'removeFileAttachment'` &ndash; removes the file attachment from the content.
+ */
+export default class FileAttachmentUI extends Plugin {
+	/**
+	 * The contextual balloon plugin instance.
+	 */
+	private _balloon?: ContextualBalloon;
+
+	/**
+	 * A form used to rename the file attachment.
+	 */
+	private _form?: FileAttachmentRenameFormView & InstanceType<ReturnType<typeof CssTransitionDisablerMixin>>;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ ContextualBalloon ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'FileAttachmentUI' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		editor.ui.componentFactory.add( 'renameFileAttachment', locale => {
+			const command = editor.commands.get( 'renameFileAttachment' )!;
+			const view = this._createButton( locale, t( 'Rename file' ), icons.pencil );
+
+			view.bind( 'isEnabled' ).to( command, 'isEnabled' );
+
+			this.listenTo( view, 'execute', () => {
+				this._showForm();
+			} );
+
+			return view;
+		} );
+
+		editor.ui.componentFactory.add( 'replaceFileAttachment', locale => {
+			const command = editor.commands.get( 'replaceFileAttachment' )!;
+			const fileTypes = editor.config.get( 'fileUploader.fileTypes' )!;
+			const isAllowedFile = createFileTypeMatcher( fileTypes );
+			const view = new FileDialogButtonView( locale );
+
+			view.set( {
+				acceptedType: getFileTypeAcceptValue( fileTypes ),
+				allowMultipleFiles: false
+			} );
+
+			view.buttonView.set( {
+				label: t( 'Replace file' ),
+				icon: fileUploadIcon,
+				tooltip: true
+			} );
+
+			view.buttonView.bind( 'isEnabled' ).to( command );
+
+			view.on( 'done', ( evt, files: FileList ) => {
+				const file = Array.from( files ).find( isAllowedFile );
+
+				if ( file ) {
+					editor.execute( 'replaceFileAttachment', { file } );
+
+					editor.editing.view.focus();
+				}
+			} );
+
+			return view;
+		} );
+
+		editor.ui.componentFactory.add( 'downloadFileAttachment', locale => {
+			const view = this._createButton( locale, t( 'Download file' ), fileDownloadIcon );
+			const selection = editor.model.document.selection;
+
+			// The file can be downloaded only when it is uploaded, and only from a safe link.
+			const getDownloadUrl = () => {
+				const fileElement = getSelectedFileAttachment( selection );
+
+				if ( !fileElement || fileElement.hasAttribute( 'uploadId' ) ) {
+					return null;
+				}
+
+				const linkHref = String( fileElement.getAttribute( 'linkHref' ) || '' );
+
+				return linkHref && isSafeFileUrl( linkHref ) ? linkHref : null;
+			};
+
+			const updateIsEnabled = () => {
+				view.isEnabled = !!getDownloadUrl();
+			};
+
+			this.listenTo( editor.ui, 'update', updateIsEnabled );
+			updateIsEnabled();
+
+			this.listenTo( view, 'execute', () => {
+				const downloadUrl = getDownloadUrl();
+
+				if ( downloadUrl ) {
+					window.open( downloadUrl, '_blank', 'noopener' );
+				}
+			} );
+
+			return view;
+		} );
+
+		editor.ui.componentFactory.add( 'removeFileAttachment', locale => {
+			const command = editor.commands.get( 'removeFileAttachment' )!;
+			const view = this._createButton( locale, t( 'Remove file' ), fileRemoveIcon );
+
+			view.bind( 'isEnabled' ).to( command, 'isEnabled' );
+
+			this.listenTo( view, 'execute', () => {
+				editor.execute( 'removeFileAttachment' );
+				editor.editing.view.focus();
+			} );
+
+			return view;
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		// Destroy created UI components as they are not automatically destroyed (see ckeditor5#1341).
+		if ( this._form ) {
+			this._form.destroy();
+		}
+	}
+
+	/**
+	 * Creates a toolbar button.
+	 */
+	private _createButton( locale: Locale, label: string, icon: string ): ButtonView {
+		const view = new ButtonView( locale );
+
+		view.set( {
+			label,
+			icon,
+			tooltip: true
+		} );
+
+		return view;
+	}
+
+	/**
+	 * Creates the {@link module:file-uploader/fileattachmentrenameformview~FileAttachmentRenameFormView} form.
+	 */
+	private _createForm(): void {
+		const editor = this.editor;
+		const viewDocument = editor.editing.view.document;
+
+		this._balloon = editor.plugins.get( 'ContextualBalloon' );
+		this._form = new ( CssTransitionDisablerMixin( FileAttachmentRenameFormView ) )( editor.locale );
+
+		// Render the form so its #element is available for clickOutsideHandler.
+		this._form.render();
+
+		this.listenTo( this._form, 'submit', () => {
+			editor.execute( 'renameFileAttachment', {
+				newName: this._form!.labeledInput.fieldView.element!.value
+			} );
+
+			this._hideForm( true );
+		} );
+
+		this.listenTo( this._form, 'cancel', () => {
+			this._hideForm( true );
+		} );
+
+		// Close the form on Esc key press.
+		this._form.keystrokes.set( 'Esc', ( data, cancel ) => {
+			this._hideForm( true );
+			cancel();
+		} );
+
+		// Reposition the balloon or hide the form if a file attachment widget is no longer selected.
+		this.listenTo( editor.ui, 'update', () => {
+			if ( !getSelectedFileAttachmentWidget( viewDocument.selection ) ) {
+				this._hideForm( true );
+			} else if ( this._isVisible ) {
+				this._balloon!.updatePosition( this._getBalloonPositionData() );
+			}
+		} );
+
+		// Close on click outside of balloon panel element.
+		clickOutsideHandler( {
+			emitter: this._form,
+			activator: () => this._isVisible,
+			contextElements: () => [ this._balloon!.view.element! ],
+			callback: () => this._hideForm()
+		} );
+	}
+
+	/**
+	 * Shows the {@link #_form} in the {@link #_balloon}.
+	 */
+	private _showForm(): void {
+		if ( this._isVisible ) {
+			return;
+		}
+
+		if ( !this._form ) {
+			this._createForm();
+		}
+
+		const command = this.editor.commands.get( 'renameFileAttachment' )!;
+		const labeledInput = this._form!.labeledInput;
+
+		this._form!.disableCssTransitions();
+
+		if ( !this._isInBalloon ) {
+			this._balloon!.add( {
+				view: this._form!,
+				position: this._getBalloonPositionData()
+			} );
+		}
+
+		// Make sure that each time the panel shows up, the field remains in sync with the value of the command.
+		labeledInput.fieldView.value = labeledInput.fieldView.element!.value = command.value || '';
+
+		this._form!.labeledInput.fieldView.select();
+
+		this._form!.enableCssTransitions();
+	}
+
+	/**
+	 * Removes the {@link #_form} from the {@link #_balloon}.
+	 *
+	 * @param focusEditable Controls whether the editing view is focused afterwards.
+	 */
+	private _hideForm( focusEditable: boolean = false ): void {
+		if ( !this._isInBalloon ) {
+			return;
+		}
+
+		// Blur the input element before removing it from DOM to prevent issues in some browsers.
+		// See https://github.com/ckeditor/ckeditor5/issues/1501.
+		if ( this._form!.focusTracker.isFocused ) {
+			this._form!.saveButtonView.focus();
+		}
+
+		this._balloon!.remove( this._form! );
+
+		if ( focusEditable ) {
+			this.editor.editing.view.focus();
+		}
+	}
+
+	/**
+	 * Returns the position of the balloon attached to the selected file attachment widget.
+	 */
+	private _getBalloonPositionData(): Partial<PositionOptions> {
+		const editingView = this.editor.editing.view;
+		const defaultPositions = BalloonPanelView.defaultPositions;
+		const selectedWidget = getSelectedFileAttachmentWidget( editingView.document.selection )!;
+
+		return {
+			target: editingView.domConverter.mapViewToDom( selectedWidget ),
+			positions: [
+				defaultPositions.northArrowSouth,
+				defaultPositions.northArrowSouthWest,
+				defaultPositions.northArrowSouthEast,
+				defaultPositions.southArrowNorth,
+				defaultPositions.southArrowNorthWest,
+				defaultPositions.southArrowNorthEast,
+				defaultPositions.viewportStickyNorth
+			]
+		};
+	}
+
+	/**
+	 * Returns `true` when the {@link #_form} is the visible view in the {@link #_balloon}.
+	 */
+	private get _isVisible(): boolean {
+		return !!this._balloon && this._balloon.visibleView === this._form;
+	}
+
+	/**
+	 * Returns `true` when the {@link #_form} is in the {@link #_balloon}.
+	 */
+	private get _isInBalloon(): boolean {
+		return !!this._balloon && this._balloon.hasView( this._form! );
+	}
+}
@@ -0,0 +1,130 @@
+/**
+ * @module file-uploader/filedropoverlayview
+ */
+
+import { View } from 'ckeditor5/src/ui';
+import { toUnit, type Locale, type Rect } from 'ckeditor5/src/utils';
+
+import type { FileDropState } from './fileuploaddroptarget';
+
+const toPx = toUnit( 'px' );
+
+/**
+ * The overlay covering the editor while the files are dragged over it. It invites to drop the files, or tells why
+ * they cannot be dropped (see {@link module:file-uploader/fileuploaddroptarget~FileUploadDropTarget#state}).
+ *
+ * The overlay is positioned with {@link #setRect} and it does not catch the mouse events, so the files are dropped
+ * into the editing view under it.
+ */
+export default class FileDropOverlayView extends View {
+	/**
+	 * The state of the dragged files. The overlay is hidden when it is `null`.
+	 *
+	 * @observable
+	 */
+	declare public state: FileDropState | null;
+
+	/**
+	 * The top position of the overlay in the viewport.
+	 *
+	 * @observable
+	 */
+	declare public top: number;
+
+	/**
+	 * The left position of the overlay in the viewport.
+	 *
+	 * @observable
+	 */
+	declare public left: number;
+
+	/**
+	 * The width of the overlay.
+	 *
+	 * @observable
+	 */
+	declare public width: number;
+
+	/**
+	 * The height of the overlay.
+	 *
+	 * @observable
+	 */
+	declare public height: number;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale ) {
+		super( locale );
+
+		const t = this.locale!.t;
+		const bind = this.bindTemplate;
+
+		this.set( {
+			state: null,
+			top: 0,
+			left: 0,
+			width: 0,
+			height: 0
+		} );
+
+		const labels: Record<FileDropState, string> = {
+			allowed: t( 'Drop files here' ),
+			rejected: t( 'Files of this type cannot be inserted' ),
+			disallowed: t( 'Files cannot be inserted here' )
+		};
+
+		this.setTemplate( {
+			tag: 'div',
+
+			attributes: {
+				class: [
+					'ck',
+					'ck-file-drop-overlay',
+					bind.if( 'state', 'ck-hidden', state => !state ),
+					bind.if( 'state', 'ck-file-drop-overlay_disallowed', state => !!state && state != 'allowed' )
+				],
+
+				style: {
+					top: bind.to( 'top', toPx ),
+					left: bind.to( 'left', toPx ),
+					width: bind.to( 'width', toPx ),
+					height: bind.to( 'height', toPx )
+				},
+
+				'aria-hidden': 'true'
+			},
+
+			children: [
+				{
+					tag: 'span',
+
+					attributes: {
+						class: [ 'ck', 'ck-file-drop-overlay__label' ]
+					},
+
+					children: [
+						{ text: bind.to( 'state', ( state: FileDropState | null ) => state ? labels[ state ] : '' ) }
+					]
+				}
+			]
+		} );
+	}
+
+	/**
+	 * Positions the overlay over the visible part of the element area.
+	 *
+	 * @param rect The area of the element.
+	 */
+	public setRect( rect: Rect ): void {
+		const visibleRect = rect.getVisible() || rect;
+
+		this.set( {
+			top: visibleRect.top,
+			left: visibleRect.left,
+			width: visibleRect.width,
+			height: visibleRect.height
+		} );
+	}
+}
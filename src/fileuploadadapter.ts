@@ -0,0 +1,272 @@
+/**
+ * @module file-uploader/fileuploadadapter
+ */
+
+/* globals XMLHttpRequest, FormData */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { FileRepository, type FileLoader, type UploadAdapter, type UploadResponse } from 'ckeditor5/src/upload';
+import { logWarning } from 'ckeditor5/src/utils';
+
+import type { FileUploadAdapterConfig } from './fileuploaderconfig';
+import ChunkedUpload, { DEFAULT_CHUNK_SIZE, normalizeResponse, type ChunkedUploadIds, type ChunkedUploadResponse } from './chunkedupload';
+import { getCookie, getFileMetadata, isRemoteFile } from './utils';
+
+/**
+ * The file upload adapter uploads files to an application running on your server using
+ * the [`XMLHttpRequest`](https://developer.mozilla.org/en-US/docs/Web/API/XMLHttpRequest) API.
+ *
+ * Compared to the `SimpleUploadAdapter`, the request can be customized with the
+ * {@link module:file-uploader/fileuploaderconfig~FileUploadAdapterConfig `config.fileUploader.adapter`} options,
+ * e.g. the HTTP method, the name of the file field, additional (per-file) form fields and a CSRF token read from a cookie.
+ *
+ * The server should respond with a JSON object containing the `url` (or `urls`) of the uploaded file,
+ * or with an `error.message` if the upload failed.
+ *
+ * Large files can be uploaded in chunks, see the {@link module:file-uploader/fileuploaderconfig~FileUploadAdapterConfig#chunked}
+ * option. The remote files inserted from URLs are fetched by the server, see the
+ * {@link module:file-uploader/fileuploaderconfig~FileUploadAdapterConfig#fetchUrl} option.
+ */
+export default class FileUploadAdapter extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ FileRepository ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'FileUploadAdapter' as const;
+	}
+
+	/**
+	 * The server-side identifiers of the resumable chunked uploads of the editor.
+	 */
+	private readonly _chunkedUploadIds: ChunkedUploadIds = { ids: new Map(), activeKeys: new Set() };
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const options = this.editor.config.get( 'fileUploader.adapter' );
+
+		if ( !options ) {
+			return;
+		}
+
+		if ( !options.uploadUrl ) {
+			/**
+			 * The `config.fileUploader.adapter.uploadUrl` configuration required by the `FileUploadAdapter` is missing.
+			 * Make sure the correct URL is specified for the file upload to work properly.
+			 *
+			 * @error file-upload-adapter-missing-uploadurl
+			 */
+			logWarning( 'file-upload-adapter-missing-uploadurl' );
+
+			return;
+		}
+
+		this.editor.plugins.get( FileRepository ).createUploadAdapter = loader => {
+			return new Adapter( loader, options, this._chunkedUploadIds );
+		};
+	}
+}
+
+/**
+ * Upload adapter.
+ */
+class Adapter implements UploadAdapter {
+	/**
+	 * FileLoader instance to use during the upload.
+	 */
+	public loader: FileLoader;
+
+	/**
+	 * The configuration of the adapter.
+	 */
+	public options: FileUploadAdapterConfig;
+
+	private xhr?: XMLHttpRequest;
+
+	/**
+	 * The chunked upload in progress.
+	 */
+	private chunkedUpload?: ChunkedUpload;
+
+	/**
+	 * The server-side identifiers of the resumable chunked uploads of the editor.
+	 */
+	private readonly chunkedUploadIds: ChunkedUploadIds;
+
+	/**
+	 * Creates a new adapter instance.
+	 */
+	constructor( loader: FileLoader, options: FileUploadAdapterConfig, chunkedUploadIds: ChunkedUploadIds ) {
+		this.loader = loader;
+		this.options = options;
+		this.chunkedUploadIds = chunkedUploadIds;
+	}
+
+	/**
+	 * Starts the upload process.
+	 *
+	 * @see module:upload/filerepository~UploadAdapter#upload
+	 */
+	public upload(): Promise<UploadResponse> {
+		return this.loader.file
+			.then( file => {
+				const chunked = this.options.chunked;
+
+				// The server fetches the remote file itself, only its URL is sent.
+				if ( isRemoteFile( file! ) ) {
+					return file!.text().then( url => this._uploadFile( file!, url ) );
+				}
+
+				if ( chunked && ( chunked.protocol == 'tus' || file!.size > ( chunked.chunkSize || DEFAULT_CHUNK_SIZE ) ) ) {
+					this.chunkedUpload = new ChunkedUpload( this.loader, file!, this.options, this._getHeaders(), this.chunkedUploadIds );
+
+					return this.chunkedUpload.start();
+				}
+
+				return this._uploadFile( file! );
+			} );
+	}
+
+	/**
+	 * Aborts the upload process.
+	 *
+	 * @see module:upload/filerepository~UploadAdapter#abort
+	 */
+	public abort(): void {
+		if ( this.chunkedUpload ) {
+			this.chunkedUpload.abort();
+		}
+
+		if ( this.xhr ) {
+			this.xhr.abort();
+		}
+	}
+
+	/**
+	 * Uploads the file in a single request.
+	 *
+	 * @param file File instance to be uploaded.
+	 * @param remoteUrl The URL of a remote file fetched by the server.
+	 */
+	private _uploadFile( file: File, remoteUrl?: string ): Promise<UploadResponse> {
+		return new Promise( ( resolve, reject ) => {
+			this._initRequest( remoteUrl ? this.options.fetchUrl! : this.options.uploadUrl );
+			this._initListeners( resolve, reject, file );
+			this._sendRequest( file, remoteUrl );
+		} );
+	}
+
+	/**
+	 * Initializes the `XMLHttpRequest` object using the given URL and the configured method.
+	 */
+	private _initRequest( url: string ): void {
+		const xhr = this.xhr = new XMLHttpRequest();
+
+		xhr.open( this.options.method || 'POST', url, true );
+		xhr.responseType = 'json';
+	}
+
+	/**
+	 * Initializes XMLHttpRequest listeners.
+	 *
+	 * @param resolve Callback function to be called when the request is successful.
+	 * @param reject Callback function to be called when the request cannot be completed.
+	 * @param file Native File object.
+	 */
+	private _initListeners(
+		resolve: ( value: UploadResponse ) => void,
+		reject: ( reason?: unknown ) => void,
+		file: File
+	): void {
+		const xhr = this.xhr!;
+		const loader = this.loader;
+		const genericErrorText = `Couldn't upload file: ${ file.name }.`;
+
+		xhr.addEventListener( 'error', () => reject( genericErrorText ) );
+		xhr.addEventListener( 'abort', () => reject() );
+		xhr.addEventListener( 'load', () => {
+			const response = xhr.response as ChunkedUploadResponse | null;
+
+			if ( !response || response.error || xhr.status >= 400 ) {
+				return reject( response && response.error && response.error.message ? response.error.message : genericErrorText );
+			}
+
+			resolve( normalizeResponse( response ) );
+		} );
+
+		// Upload progress when it is supported.
+		if ( xhr.upload ) {
+			xhr.upload.addEventListener( 'progress', evt => {
+				if ( evt.lengthComputable ) {
+					loader.uploadTotal = evt.total;
+					loader.uploaded = evt.loaded;
+				}
+			} );
+		}
+	}
+
+	/**
+	 * Prepares the data and sends the request.
+	 *
+	 * @param file File instance to be uploaded.
+	 * @param remoteUrl The URL of a remote file sent instead of the file.
+	 */
+	private _sendRequest( file: File, remoteUrl?: string ): void {
+		const xhr = this.xhr!;
+		const options = this.options;
+		const headers = this._getHeaders();
+
+		for ( const headerName of Object.keys( headers ) ) {
+			xhr.setRequestHeader( headerName, headers[ headerName ] );
+		}
+
+		xhr.withCredentials = options.withCredentials || false;
+
+		// Prepare the form data.
+		const data = new FormData();
+		const fields = {
+			...typeof options.fields == 'function' ? options.fields( file ) : options.fields,
+			// The metadata attached by the `validateFile` callback.
+			...getFileMetadata( file )
+		};
+
+		for ( const [ name, value ] of Object.entries( fields ) ) {
+			data.append( name, value );
+		}
+
+		if ( remoteUrl ) {
+			data.append( 'url', remoteUrl );
+		} else {
+			data.append( options.fieldName || 'upload', file );
+		}
+
+		// Send the request.
+		xhr.send( data );
+	}
+
+	/**
+	 * Returns the configured headers of the upload requests, including the CSRF token.
+	 */
+	private _getHeaders(): Record<string, string> {
+		const options = this.options;
+		const headers: Record<string, string> = { ...options.headers };
+
+		if ( options.csrfCookieName ) {
+			const csrfToken = getCookie( options.csrfCookieName );
+
+			if ( csrfToken ) {
+				headers[ options.csrfHeaderName || 'X-CSRFToken' ] = csrfToken;
+			}
+		}
+
+		return headers;
+	}
+}
@@ -0,0 +1,274 @@
+/**
+ * @module file-uploader/fileuploaddroptarget
+ */
+
+import { Plugin, type Editor } from 'ckeditor5/src/core';
+import type {
+	DataTransfer,
+	DomEventData,
+	Range,
+	ViewElement,
+	ViewRange
+} from 'ckeditor5/src/engine';
+import type { ViewDocumentClipboardInputEvent } from 'ckeditor5/src/clipboard';
+import { isWidget } from 'ckeditor5/src/widget';
+import { Rect, delay, type DelayedFunc } from 'ckeditor5/src/utils';
+
+import '../theme/fileuploaddroptarget.css';
+
+/**
+ * The file upload drop target plugin. It shows where the files dragged over the editing view are going to be inserted
+ * and makes sure they are inserted exactly there.
+ *
+ * The drop target is shown as a caret in the text, or as a line between the blocks. It is the position under the mouse pointer,
+ * or the position before or after a widget under the mouse pointer. The target is not shown when the dragged files are not of the
+ * allowed types (see {@link module:file-uploader/fileuploadediting~FileUploadEditing#isAcceptedFile}) or when they cannot be
+ * inserted there (see {@link module:file-uploader/uploadfilecommand~UploadFileCommand#canUploadAt}). The browser shows
+ * the "not allowed" cursor then, and the {@link #state} tells why the files cannot be dropped.
+ *
+ * The target is a `'fileDropTarget'` marker in the model, the other features of the editor do not show their drop targets
+ * for the dragged files.
+ */
+export default class FileUploadDropTarget extends Plugin {
+	/**
+	 * The state of the files dragged over the editing view:
+	 *
+	 * * `'allowed'` &ndash; the files can be dropped at the drop target,
+	 * * `'rejected'` &ndash; none of the dragged files is of an allowed type,
+	 * * `'disallowed'` &ndash; the files cannot be inserted under the mouse pointer, e.g. in a code block or in the read-only mode,
+	 * * `null` &ndash; no files are dragged over the editing view.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public state: FileDropState | null;
+
+	/**
+	 * Resets the drop target after the files were dragged out of the editing view. It is delayed because the `dragleave` event
+	 * is fired also when the mouse pointer moves between the elements in the editing view. The next `dragging` event cancels it.
+	 */
+	private readonly _resetDelayed: DelayedFunc<() => void>;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'FileUploadDropTarget' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		this.set( 'state', null );
+
+		this._resetDelayed = delay( () => this._reset(), 40 );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const viewDocument = editor.editing.view.document;
+
+		editor.conversion.for( 'editingDowncast' ).markerToElement( {
+			model: 'fileDropTarget',
+			view: ( { markerRange }, { writer } ) => {
+				const isInline = editor.model.schema.checkChild( markerRange.start, '$text' );
+
+				return writer.createUIElement( 'span', {
+					class: isInline ? 'ck ck-file-drop-target' : 'ck ck-file-drop-target ck-file-drop-target_block'
+				}, function( domDocument ) {
+					const domElement = this.toDomElement( domDocument );
+
+					// The word joiners keep the caret in the line of the text.
+					domElement.append( '\u2060', domDocument.createElement( 'span' ), '\u2060' );
+
+					return domElement;
+				} );
+			}
+		} );
+
+		// Update the drop target before the drag and drop feature, so it does not show its drop target for the dragged files.
+		this.listenTo<ViewDocumentDraggingEvent>( viewDocument, 'dragging', ( evt, data ) => {
+			if ( !data.dataTransfer.types.includes( 'Files' ) ) {
+				return;
+			}
+
+			const dropRange = this._findDropRange( data.target, data.targetRanges, data.domEvent.clientX, data.domEvent.clientY );
+
+			this._resetDelayed.cancel();
+
+			if ( !this._hasAcceptedFiles( data.domEvent ) ) {
+				this.state = 'rejected';
+			} else if ( !dropRange || !editor.commands.get( 'uploadFile' )!.canUploadAt( editor.model.createSelection( dropRange ) ) ) {
+				this.state = 'disallowed';
+			} else {
+				this.state = 'allowed';
+			}
+
+			if ( this.state == 'allowed' ) {
+				this._updateMarker( dropRange! );
+			} else {
+				this._removeMarker();
+			}
+
+			data.dataTransfer.dropEffect = this.state == 'allowed' ? 'copy' : 'none';
+
+			evt.stop();
+		} );
+
+		this.listenTo( viewDocument, 'dragleave', () => {
+			this._resetDelayed();
+		} );
+
+		// The drop is handled by the clipboard input listeners, the drop target is not needed anymore then.
+		this.listenTo( viewDocument, 'drop', () => {
+			this._reset();
+		}, { priority: 'lowest' } );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		this._resetDelayed.cancel();
+
+		super.destroy();
+	}
+
+	/**
+	 * Returns the range where the dropped files are inserted: the drop target shown while the files were dragged,
+	 * or the position where the files were dropped if the target was not shown. The drop target is removed.
+	 *
+	 * @param data The data of the `clipboardInput` event of the drop.
+	 */
+	public getFinalDropRange( data: ViewDocumentClipboardInputEvent[ 'args' ][ 0 ] ): Range | null {
+		const marker = this.editor.model.markers.get( 'fileDropTarget' );
+		const domEvent = data.domEvent as DragEvent;
+		const dropRange = marker ?
+			marker.getRange() :
+			this._findDropRange( data.target, data.targetRanges || null, domEvent.clientX, domEvent.clientY );
+
+		this._reset();
+
+		return dropRange;
+	}
+
+	/**
+	 * Finds the collapsed model range where the files dropped at the point would be inserted. Over a widget, it is
+	 * the position before or after the widget, depending on the hovered half of it. Otherwise, it is the position under the point,
+	 * moved to the nearest place where the selection can be.
+	 */
+	private _findDropRange(
+		target: ViewElement | null,
+		targetRanges: Array<ViewRange> | null,
+		clientX: number,
+		clientY: number
+	): Range | null {
+		const editor = this.editor;
+		const model = editor.model;
+		const { mapper, view } = editor.editing;
+
+		// The closest editable or widget, the content of a nested editable (e.g. an image caption) is not dropped next to the widget.
+		const targetElement = target && target.getAncestors( { includeSelf: true, parentFirst: true } )
+			.find( ( element ): element is ViewElement => element.is( 'editableElement' ) || isWidget( element ) );
+
+		if ( targetElement && isWidget( targetElement ) ) {
+			const modelElement = mapper.toModelElement( targetElement );
+
+			if ( !modelElement ) {
+				return null;
+			}
+
+			const rect = new Rect( view.domConverter.mapViewToDom( targetElement )! );
+			const isAfter = model.schema.isInline( modelElement ) ?
+				clientX > rect.left + rect.width / 2 :
+				clientY > rect.top + rect.height / 2;
+
+			return model.createRange( isAfter ? model.createPositionAfter( modelElement ) : model.createPositionBefore( modelElement ) );
+		}
+
+		if ( !targetRanges || !targetRanges.length ) {
+			return null;
+		}
+
+		const range = model.schema.getNearestSelectionRange( mapper.toModelPosition( targetRanges[ 0 ].start ) );
+
+		// A range on an object is a drop before the object.
+		return range && model.createRange( range.start );
+	}
+
+	/**
+	 * Checks whether any of the dragged files is of an allowed type. The names of the files are not known until they are dropped,
+	 * and the browsers do not know the types of some files, so such files are accepted.
+	 */
+	private _hasAcceptedFiles( domEvent: DragEvent ): boolean {
+		const editing = this.editor.plugins.get( 'FileUploadEditing' );
+		const items = Array.from( domEvent.dataTransfer ? domEvent.dataTransfer.items : [] ).filter( item => item.kind == 'file' );
+
+		return !items.length || items.some( item => !item.type || editing.isAcceptedFile( { name: '', type: item.type } ) );
+	}
+
+	/**
+	 * Sets the drop target marker to the range.
+	 */
+	private _updateMarker( range: Range ): void {
+		const model = this.editor.model;
+		const marker = model.markers.get( 'fileDropTarget' );
+
+		if ( marker && marker.getRange().isEqual( range ) ) {
+			return;
+		}
+
+		model.change( writer => {
+			if ( marker ) {
+				writer.updateMarker( marker, { range } );
+			} else {
+				writer.addMarker( 'fileDropTarget', { range, usingOperation: false, affectsData: false } );
+			}
+		} );
+	}
+
+	/**
+	 * Removes the drop target marker.
+	 */
+	private _removeMarker(): void {
+		const model = this.editor.model;
+
+		if ( model.markers.has( 'fileDropTarget' ) ) {
+			model.change( writer => {
+				writer.removeMarker( 'fileDropTarget' );
+			} );
+		}
+	}
+
+	/**
+	 * Removes the drop target when no files are dragged over the editing view anymore.
+	 */
+	private _reset(): void {
+		this._resetDelayed.cancel();
+		this._removeMarker();
+		this.state = null;
+	}
+}
+
+/**
+ * The state of the files dragged over the editing view, see {@link ~FileUploadDropTarget#state}.
+ */
+export type FileDropState = 'allowed' | 'rejected' | 'disallowed';
+
+/**
+ * The `dragging` event fired by the clipboard observer on the view document when something is dragged over it.
+ * The clipboard package does not export its type.
+ */
+type ViewDocumentDraggingEvent = {
+	name: 'dragging';
+	args: [ data: DomEventData<DragEvent> & {
+		dataTransfer: DataTransfer;
+		targetRanges: Array<ViewRange> | null;
+	} ];
+};
@@ -4,13 +4,17 @@
  */
 
 /**
- * @module image/imageupload/imageuploadediting
+ * @module file-uploader/fileuploadediting
  */
 
-import { Plugin, type Editor } from 'ckeditor5/src/core';
+/* globals setTimeout, clearTimeout */
+
+import { Plugin, PendingActions, type Editor, type PendingAction } from 'ckeditor5/src/core';
 
 import {
+	LiveRange,
 	UpcastWriter,
+	type DowncastInsertEvent,
 	type Element,
 	type Item,
 	type DataTransfer,
@@ -18,16 +22,63 @@ import {
 } from 'ckeditor5/src/engine';
 
 import { Notification } from 'ckeditor5/src/ui';
-import { ClipboardPipeline, type ViewDocumentClipboardInputEvent } from 'ckeditor5/src/clipboard';
+import {
+	ClipboardPipeline,
+	type ClipboardInputTransformationEvent,
+	type ViewDocumentClipboardInputEvent
+} from 'ckeditor5/src/clipboard';
 import { FileRepository, type UploadResponse, type FileLoader } from 'ckeditor5/src/upload';
+import { Widget } from 'ckeditor5/src/widget';
+import type { ObservableChangeEvent } from 'ckeditor5/src/utils';
 
 import UploadFileCommand from './uploadfilecommand';
-import { createFileTypeRegExp, fetchLocalFile, isLocalFile } from './utils';
+import RetryFileUploadCommand from './retryfileuploadcommand';
+import CancelFileUploadCommand from './cancelfileuploadcommand';
+import RenameFileAttachmentCommand from './renamefileattachmentcommand';
+import ReplaceFileAttachmentCommand from './replacefileattachmentcommand';
+import RemoveFileAttachmentCommand from './removefileattachmentcommand';
+import InsertFileFromUrlCommand from './insertfilefromurlcommand';
+import FileUploadDropTarget from './fileuploaddroptarget';
+import {
+	FILE_ATTACHMENT_ATTRIBUTES,
+	createFileAttachmentViewElement,
+	createFileAttachmentWidget,
+	createFileIconGetter,
+	getFileAttachmentAttributes,
+	getFileAttachmentViewLink
+} from './converters';
+import type { FileLabelData, FileUploaderConfig } from './fileuploaderconfig';
+import type { FileAttachmentRemovedEvent } from './fileattachmentrepository';
+import {
+	computeFileHash,
+	createFileTypeMatcher,
+	fetchLocalFile,
+	getFileType,
+	isFileAttachment,
+	isLocalFile,
+	isRemoteFile,
+	sanitizeFile
+} from './utils';
+
+import '../theme/fileattachment.css';
 
 /**
  * The editing part of the file upload feature. It registers the `'uploadFile'` command
  * and the `fileUpload` command as an aliased name.
  *
+ * Uploaded files are represented in the model by the `fileAttachment` (block) and `fileAttachmentInline` elements,
+ * rendered as widgets in the editing view and as `<a class="file-attachment">` links in the data.
+ *
+ * A file whose upload failed stays in the content in the `'error'` upload status. It can be uploaded again
+ * with the `'retryFileUpload'` command or automatically (see `config.fileUploader.uploadRetries`).
+ * Uploads in progress and failed uploads can be removed with the `'cancelFileUpload'` command.
+ * The label of a file attachment can be changed with the `'renameFileAttachment'` command, and the file can be replaced
+ * with a new upload with the `'replaceFileAttachment'` command. A file linked by a URL is inserted with the `'insertFileFromUrl'` command.
+ *
+ * Each upload is registered in the {@link module:core/pendingactions~PendingActions pending actions} from its insertion:
+ * while it is queued, uploaded or its automatic retry is scheduled. The files that are not uploaded yet are left out
+ * of the editor data. Use {@link #uploadsSettled} to wait for the uploads to finish before saving the data.
+ *
  * When a file is uploaded, it fires the {@link ~FileUploadEditing#event:uploadComplete `uploadComplete`} event
  * that allows adding custom attributes to the {@link module:engine/model/element~Element file element}.
  */
@@ -36,13 +87,31 @@ export default class FileUploadEditing extends Plugin {
 	 * @inheritDoc
 	 */
 	public static get requires() {
-		return [ FileRepository, Notification, ClipboardPipeline ] as const;
+		return [ FileRepository, Notification, ClipboardPipeline, PendingActions, Widget, FileUploadDropTarget ] as const;
 	}
 
 	public static get pluginName() {
 		return 'FileUploadEditing' as const;
 	}
 
+	/**
+	 * Whether a file is being uploaded (or an automatic retry of a failed upload is scheduled).
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public isUploading: boolean;
+
+	/**
+	 * The total progress of the file attachment uploads in percents. Unlike the
+	 * {@link module:upload/filerepository~FileRepository#uploadedPercent progress of the file repository}, it does not include
+	 * the uploads of the other features, e.g. the image uploads.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public uploadedPercent: number;
+
 	/**
 	 * An internal mapping of {@link module:upload/filerepository~FileLoader#id file loader UIDs} and
 	 * model elements during the upload.
@@ -54,6 +123,54 @@ export default class FileUploadEditing extends Plugin {
 	 */
 	private readonly _uploadFileElements: Map<string, Element>;
 
+	/**
+	 * An internal mapping of {@link module:upload/filerepository~FileLoader#id file loader UIDs} and the original files.
+	 * The files are kept after a failed upload so it can be retried with a new loader.
+	 */
+	private readonly _uploadFiles: Map<string, File>;
+
+	/**
+	 * The number of automatic retries already done for the uploads, by the upload id.
+	 */
+	private readonly _uploadRetries: Map<string, number>;
+
+	/**
+	 * The timeouts of the scheduled automatic retries, by the ids of the failed uploads.
+	 */
+	private readonly _retryTimeouts: Map<string, ReturnType<typeof setTimeout>>;
+
+	/**
+	 * The pending actions of the uploads by the upload ids (see {@link #_updateIsUploading}).
+	 */
+	private readonly _pendingActions: Map<string, PendingAction>;
+
+	/**
+	 * The loaders waiting for an upload slot (see `config.fileUploader.maxConcurrentUploads`), in the FIFO order.
+	 */
+	private readonly _uploadQueue: Array<FileLoader>;
+
+	/**
+	 * The ids of the loaders being read or uploaded.
+	 */
+	private readonly _activeUploads: Set<string>;
+
+	/**
+	 * The uploads (finished or in progress) of the files in this editor by the SHA-256 hashes of the files
+	 * (see `config.fileUploader.deduplicateFiles`).
+	 */
+	private readonly _uploadsByHash: Map<string, Promise<UploadResponse>>;
+
+	/**
+	 * The hashes of the deduplicated files being uploaded, by the upload ids.
+	 */
+	private readonly _uploadHashes: Map<string, string>;
+
+	/**
+	 * The hashes of the uploaded deduplicated files, by the links of their file attachments. The upload of a file is not reused
+	 * after the file is removed from the content, as it can be deleted from the server (see `config.fileUploader.deleteFile`).
+	 */
+	private readonly _linkedHashes: Map<string, string>;
+
 	/**
 	 * @inheritDoc
 	 */
@@ -61,10 +178,35 @@ export default class FileUploadEditing extends Plugin {
 		super( editor );
 
 		editor.config.define( 'fileUploader', {
-			fileTypes: [ 'pdf' ]
+			fileTypes: [ 'pdf' ],
+			uploadRetries: 0,
+			uploadRetryDelay: 1000,
+			sanitizeFileName: false,
+			deduplicateFiles: false,
+			maxHashedFileSize: 50 * 1024 * 1024,
+			imageHandling: 'image',
+			urlHandling: 'link',
+			disallowedParents: [ 'codeBlock' ],
+			fileIcons: {},
+			fileTypeClass: false,
+			formatLabel: ( file: FileLabelData ) => file.name
 		} );
 
 		this._uploadFileElements = new Map();
+		this._uploadFiles = new Map();
+		this._uploadRetries = new Map();
+		this._retryTimeouts = new Map();
+		this._pendingActions = new Map();
+		this._uploadQueue = [];
+		this._activeUploads = new Set();
+		this._uploadsByHash = new Map();
+		this._uploadHashes = new Map();
+		this._linkedHashes = new Map();
+
+		this.set( 'isUploading', false );
+		this.set( 'uploadedPercent', 0 );
+
+		this.decorate( 'chooseImageHandling' );
 	}
 
 	/**
@@ -76,39 +218,108 @@ export default class FileUploadEditing extends Plugin {
 		const conversion = editor.conversion;
 		const fileRepository = editor.plugins.get( FileRepository );
 		const clipboardPipeline: ClipboardPipeline = editor.plugins.get( 'ClipboardPipeline' );
-		const fileTypes = createFileTypeRegExp( editor.config.get( 'fileUploader.fileTypes' )! as Array<string> );
+		const isAllowedFile = createFileTypeMatcher( editor.config.get( 'fileUploader.fileTypes' )! );
 		const uploadFileCommand = new UploadFileCommand( editor );
 		const schema = editor.model.schema;
+		const t = editor.t;
 
 		// Register `uploadFile` command.
 		editor.commands.add( 'uploadFile', uploadFileCommand );
 
-		schema.extend( '$text', {
-			allowAttributes: [ 'uploadId', 'uploadStatus' ]
+		// Register `retryFileUpload` command.
+		editor.commands.add( 'retryFileUpload', new RetryFileUploadCommand( editor ) );
+
+		// Register `cancelFileUpload` command.
+		editor.commands.add( 'cancelFileUpload', new CancelFileUploadCommand( editor ) );
+
+		// Register `renameFileAttachment` command.
+		editor.commands.add( 'renameFileAttachment', new RenameFileAttachmentCommand( editor ) );
+
+		// Register `replaceFileAttachment` command.
+		editor.commands.add( 'replaceFileAttachment', new ReplaceFileAttachmentCommand( editor ) );
+
+		// Register `removeFileAttachment` command.
+		editor.commands.add( 'removeFileAttachment', new RemoveFileAttachmentCommand( editor ) );
+
+		// Register `insertFileFromUrl` command.
+		editor.commands.add( 'insertFileFromUrl', new InsertFileFromUrlCommand( editor ) );
+
+		schema.register( 'fileAttachment', {
+			inheritAllFrom: '$blockObject',
+			allowAttributes: [ ...FILE_ATTACHMENT_ATTRIBUTES, 'uploadId', 'uploadStatus' ]
 		} );
 
-		// Register upcast converter for uploadId.
+		schema.register( 'fileAttachmentInline', {
+			inheritAllFrom: '$inlineObject',
+			allowAttributes: [ ...FILE_ATTACHMENT_ATTRIBUTES, 'uploadId', 'uploadStatus' ]
+		} );
+
+		const fileTypeClass = editor.config.get( 'fileUploader.fileTypeClass' );
+		const getFileIcon = createFileIconGetter( editor.config.get( 'fileUploader.fileIcons' )! );
+
+		for ( const name of [ 'fileAttachment', 'fileAttachmentInline' ] ) {
+			conversion.for( 'dataDowncast' ).elementToStructure( {
+				model: { name, attributes: FILE_ATTACHMENT_ATTRIBUTES },
+				view: ( modelElement, { writer } ) => createFileAttachmentViewElement( writer, modelElement, { fileTypeClass } )
+			} );
+
+			conversion.for( 'editingDowncast' ).elementToStructure( {
+				model: { name, attributes: FILE_ATTACHMENT_ATTRIBUTES },
+				view: ( modelElement, { writer } ) =>
+					createFileAttachmentWidget( writer, modelElement, editor.locale, getFileIcon( modelElement ) )
+			} );
+		}
+
+		// The files that are not uploaded yet (or whose upload failed) have no URL, leave them out of the data.
+		for ( const name of [ 'fileAttachment', 'fileAttachmentInline' ] ) {
+			editor.data.downcastDispatcher.on<DowncastInsertEvent<Element>>( `insert:${ name }`, ( evt, data, { consumable } ) => {
+				if ( !data.item.hasAttribute( 'uploadId' ) ) {
+					return;
+				}
+
+				consumable.consume( data.item, 'insert' );
+
+				for ( const key of data.item.getAttributeKeys() ) {
+					consumable.consume( data.item, `attribute:${ key }` );
+				}
+			}, { priority: 'high' } );
+		}
+
+		// The file attachment links take precedence over the generic link upcast of the link feature.
 		conversion.for( 'upcast' )
-			.attributeToAttribute( {
+			.elementToElement( {
 				view: {
 					name: 'a',
-					key: 'uploadId'
+					classes: 'file-attachment'
 				},
-				model: 'uploadId'
-			} );
+				model: ( viewElement, { writer } ) => writer.createElement(
+					'fileAttachmentInline', getFileAttachmentAttributes( viewElement )
+				),
+				converterPriority: 'high'
+			} )
+			.elementToElement( {
+				view: {
+					name: 'div',
+					classes: 'file-attachment-block'
+				},
+				model: ( viewElement, { writer, consumable } ) => {
+					const viewLink = getFileAttachmentViewLink( viewElement );
 
-		// conversion.for( 'downcast' ).attributeToElement( {
-		//	model: 'uploadId',
-		//	view: {
-		//		name: 'a',
-		//		key: 'uploadId'
-		//	}
-		// } );
+					if ( !viewLink || !consumable.consume( viewLink, { name: true, classes: 'file-attachment' } ) ) {
+						return null;
+					}
+
+					return writer.createElement( 'fileAttachment', getFileAttachmentAttributes( viewLink ) );
+				},
+				converterPriority: 'high'
+			} );
 
 		// Handle pasted files.
 		// For every image file, a new file loader is created and a placeholder image is
 		// inserted into the content. Then, those images are uploaded once they appear in the model
 		// (see Document#change listener below).
+		// The image files are handled here too (before the image upload feature), so the mixed files are split
+		// between the `uploadImage` and `uploadFile` commands (see `config.fileUploader.imageHandling`).
 		this.listenTo<ViewDocumentClipboardInputEvent>( editor.editing.view.document, 'clipboardInput', ( evt, data ) => {
 			// Skip if non empty HTML data is included.
 			// https://github.com/ckeditor/ckeditor5-upload/issues/68
@@ -116,65 +327,76 @@ export default class FileUploadEditing extends Plugin {
 				return;
 			}
 
-			const files = Array.from( data.dataTransfer.files ).filter( file => {
-				// See https://github.com/ckeditor/ckeditor5-image/pull/254.
-				if ( !file ) {
-					return false;
-				}
-
-				return fileTypes.test( file.type );
-			} );
+			// See https://github.com/ckeditor/ckeditor5-image/pull/254.
+			const files = Array.from( data.dataTransfer.files ).filter( file => !!file );
 
 			if ( !files.length ) {
 				return;
 			}
 
-			evt.stop();
+			// The dropped files are inserted exactly where the drop target was shown.
+			const dropRange = data.method == 'drop' ? editor.plugins.get( FileUploadDropTarget ).getFinalDropRange( data ) : null;
 
 			editor.model.change( writer => {
+				const selection = writer.createSelection( editor.model.document.selection );
+
 				// Set selection to paste target.
-				if ( data.targetRanges ) {
+				if ( dropRange ) {
+					writer.setSelection( dropRange );
+				} else if ( data.targetRanges ) {
 					writer.setSelection( data.targetRanges.map( viewRange => editor.editing.mapper.toModelRange( viewRange ) ) );
 				}
 
-				editor.execute( 'uploadFile', { file: files } );
+				// The command is refreshed with the document changes when the change block ends, check the paste target now.
+				// The files are not inserted in the read-only mode or into the disallowed places, e.g. code blocks.
+				uploadFileCommand.refresh();
+
+				if ( uploadFileCommand.isEnabled && this.insertFiles( files ) ) {
+					evt.stop();
+				} else {
+					writer.setSelection( selection );
+					uploadFileCommand.refresh();
+				}
 			} );
-		} );
+		}, { priority: 'high' } );
 
-		// Handle HTML pasted with images with base64 or blob sources.
-		// For every image file, a new file loader is created and a placeholder image is
-		// inserted into the content. Then, those images are uploaded once they appear in the model
-		// (see Document#change listener below).
-		// this.listenTo( clipboardPipeline, 'inputTransformation', ( evt, data ) => {
-		// 	const fetchableFiles = Array.from( editor.editing.view.createRangeIn( data.content ) )
-		// 		.map( value => value.item as ViewElement )
-		// 		.filter( viewElement =>
-		// 			isLocalFile( viewElement ) &&
-		// 			!viewElement.getAttribute( 'uploadProcessed' ) )
-		// 		.map( viewElement => { return { promise: fetchLocalFile( viewElement ), fileElement: viewElement }; } );
-
-		// 	if ( !fetchableFiles.length ) {
-		// 		return;
-		// 	}
-
-		// 	const writer = new UpcastWriter( editor.editing.view.document );
-
-		// 	for ( const fetchableFile of fetchableFiles ) {
-		// 		// Set attribute marking that the image was processed already.
-		// 		writer.setAttribute( 'uploadProcessed', true, fetchableFile.fileElement );
-
-		// 		const loader = fileRepository.createLoader( fetchableFile.promise );
-
-		// 		if ( loader ) {
-		// 			writer.setAttribute( 'href', '', fetchableFile.fileElement );
-		// 			writer.setAttribute( 'uploadId', loader.id, fetchableFile.fileElement );
-		// 		}
-		// 	}
-		// } );
-
-		// Prevents from the browser redirecting to the dropped image.
-		editor.editing.view.document.on( 'dragover', ( evt, data ) => {
-			data.preventDefault();
+		// Handle HTML pasted with links to files with base64 or blob sources.
+		// For every such link, a new file loader is created and the link is converted to a file attachment
+		// with an empty `href`. Then, those files are uploaded once they appear in the model
+		// (see Document#change listener below), so only the server URLs end up in the data.
+		this.listenTo<ClipboardInputTransformationEvent>( clipboardPipeline, 'inputTransformation', ( evt, data ) => {
+			const writer = new UpcastWriter( editor.editing.view.document );
+			const fetchableFiles = Array.from( writer.createRangeIn( data.content ) )
+				.map( value => value.item as ViewElement )
+				.filter( viewElement =>
+					isLocalFile( viewElement ) &&
+					!viewElement.getAttribute( 'uploadProcessed' ) )
+				.map( viewElement => { return { promise: fetchLocalFile( viewElement ), fileElement: viewElement }; } );
+
+			if ( !fetchableFiles.length ) {
+				return;
+			}
+
+			for ( const fetchableFile of fetchableFiles ) {
+				// Set attribute marking that the file was processed already.
+				writer.setAttribute( 'uploadProcessed', true, fetchableFile.fileElement );
+
+				// The pasted files must be of the allowed types, like the inserted ones.
+				const loader = fileRepository.createLoader( fetchableFile.promise.then( file => {
+					if ( !isAllowedFile( file ) ) {
+						throw t( 'The file "%0" is not of an allowed type.', [ file.name ] );
+					}
+
+					return sanitizeFile( file, editor.config.get( 'fileUploader.sanitizeFileName' ) );
+				} ) );
+
+				if ( loader ) {
+					// Links to local files from outside of the editor are converted to file attachments too.
+					writer.addClass( 'file-attachment', fetchableFile.fileElement );
+					writer.setAttribute( 'href', '', fetchableFile.fileElement );
+					writer.setAttribute( 'uploadId', loader.id, fetchableFile.fileElement );
+				}
+			}
 		} );
 
 		// Upload placeholder images that appeared in the model.
@@ -206,6 +428,16 @@ export default class FileUploadEditing extends Plugin {
 						const loader = fileRepository.loaders.get( uploadId );
 
 						if ( !loader ) {
+							// A failed upload can be brought back, e.g. by undo. Keep the mapping up to date so it can be retried.
+							if ( !isInsertedInGraveyard && this._uploadFiles.has( uploadId ) ) {
+								this._uploadFileElements.set( uploadId, fileElement );
+
+								// A queued upload removed before it was started can be brought back, e.g. by redo. Enqueue it again.
+								if ( fileElement.getAttribute( 'uploadStatus' ) == 'queued' ) {
+									this._restartUpload( uploadId );
+								}
+							}
+
 							continue;
 						}
 
@@ -214,6 +446,15 @@ export default class FileUploadEditing extends Plugin {
 							// only then abort the loading process.
 							if ( !insertedFileIds.has( uploadId ) ) {
 								loader.abort();
+
+								// A queued upload is not started yet, so there is nothing to clean up after the abort.
+								// The file is kept, so the upload can be enqueued again if the file attachment is brought back.
+								if ( this._dequeueUpload( loader ) ) {
+									this._uploadFileElements.delete( uploadId );
+
+									fileRepository.destroyLoader( loader );
+									this._updateIsUploading();
+								}
 							}
 						} else {
 							// Remember the upload id of the inserted image. If it acted as a replacement for another
@@ -225,11 +466,23 @@ export default class FileUploadEditing extends Plugin {
 							// can later resolve in the context of the correct model element. The model element could
 							// change for the same upload if one image was replaced by another (e.g. image type was changed),
 							// so this may also replace an existing mapping.
-							this._uploadFileElements.set( uploadId, fileElement as Element );
+							this._uploadFileElements.set( uploadId, fileElement );
+
+							this._updateIsUploading();
+
+							// Keep the original file so a failed upload can be retried.
+							loader.file
+								.then( file => {
+									if ( file ) {
+										this._uploadFiles.set( uploadId, file );
+									}
+								} )
+								// A pasted file that could not be fetched is handled as a failed upload.
+								.catch( () => {} );
 
 							if ( loader.status == 'idle' ) {
 								// If the image was inserted into content and has not been loaded yet, start loading it.
-								this._readAndUpload( loader );
+								this._enqueueUpload( loader );
 							}
 						}
 					}
@@ -237,23 +490,612 @@ export default class FileUploadEditing extends Plugin {
 			}
 		} );
 
-		// Set the default handler for feeding the image element with `src` and `srcset` attributes.
-		// Also set the natural `width` and `height` attributes (if not already set).
+		this.listenTo( fileRepository.loaders, 'change', () => this._updateIsUploading() );
+
+		// The file repository aggregates the progress of all loaders, so it changes with the progress of any upload.
+		this.listenTo( fileRepository, 'change:uploaded', () => this._updateUploadedPercent() );
+		this.listenTo( fileRepository, 'change:uploadTotal', () => this._updateUploadedPercent() );
+
+		// The removed file can be deleted from the server, so an identical file must be uploaded again.
+		if ( editor.plugins.has( 'FileAttachmentRepository' ) ) {
+			this.listenTo<FileAttachmentRemovedEvent>( editor.plugins.get( 'FileAttachmentRepository' ), 'fileRemoved', ( evt, file ) => {
+				const hash = this._linkedHashes.get( file.linkHref );
+
+				if ( hash ) {
+					this._linkedHashes.delete( file.linkHref );
+					this._uploadsByHash.delete( hash );
+				}
+			} );
+		}
+
+		// Set the default handler for feeding the file attachment element with the `linkHref` attribute
+		// and the attributes mapped from the response (see `config.fileUploader.responseMapping`).
 		this.on<FileUploadCompleteEvent>( 'uploadComplete', ( evt, { fileElement, data } ) => {
 			const urls = data.urls ? data.urls as Record<string, unknown> : data;
+			const attributes: Record<string, unknown> = {
+				linkHref: urls.default,
+				...getResponseAttributes( data, editor.config.get( 'fileUploader.responseMapping' ) )
+			};
+
+			// The canonical file name from the server replaces the label of the file, unless the user renamed it.
+			if ( fileElement.getAttribute( 'fileRenamed' ) ) {
+				delete attributes.fileName;
+			} else if ( typeof attributes.fileName == 'string' && attributes.fileName ) {
+				attributes.fileName = editor.config.get( 'fileUploader.formatLabel' )!( {
+					name: attributes.fileName,
+					size: Number( attributes.fileSize || fileElement.getAttribute( 'fileSize' ) || 0 ),
+					type: String( attributes.fileType || fileElement.getAttribute( 'fileType' ) || '' )
+				} );
+			}
 
 			this.editor.model.change( writer => {
-				writer.setAttribute( 'linkHref', urls.default, fileElement );
+				for ( const [ key, value ] of Object.entries( attributes ) ) {
+					if ( value !== undefined && value !== null && schema.checkAttribute( fileElement, key ) ) {
+						writer.setAttribute( key, value, fileElement );
+					}
+				}
 			} );
 		}, { priority: 'low' } );
 	}
 
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		for ( const timeout of this._retryTimeouts.values() ) {
+			clearTimeout( timeout );
+		}
+
+		// Do not start the queued uploads when the editor is destroyed.
+		this._uploadQueue.length = 0;
+
+		super.destroy();
+	}
+
+	/**
+	 * Inserts the files at the selection. The other files than images are inserted with the `uploadFile` command if they are
+	 * of the {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#fileTypes allowed types}.
+	 *
+	 * The images accepted by the image upload feature (see `config.image.upload.types`) are inserted as images with
+	 * the `uploadImage` command. If they are of the allowed types too, they are inserted according to
+	 * {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#imageHandling `config.fileUploader.imageHandling`}:
+	 * as images, as file attachments, or as chosen with {@link #chooseImageHandling}.
+	 *
+	 * @param files The files to insert.
+	 * @returns `false` if none of the files can be inserted.
+	 */
+	public insertFiles( files: Array<File> ): boolean {
+		const editor = this.editor;
+		const imageHandling = editor.config.get( 'fileUploader.imageHandling' );
+		const isAllowedFile = createFileTypeMatcher( editor.config.get( 'fileUploader.fileTypes' )! );
+		const isImage = this._createImageMatcher();
+		const images: Array<File> = [];
+		const attachments: Array<File> = [];
+		const imagesOrAttachments: Array<File> = [];
+
+		for ( const file of files ) {
+			if ( isImage( file ) ) {
+				( isAllowedFile( file ) ? imagesOrAttachments : images ).push( file );
+			} else if ( isAllowedFile( file ) ) {
+				attachments.push( file );
+			}
+		}
+
+		if ( imageHandling == 'image' ) {
+			images.push( ...imagesOrAttachments.splice( 0 ) );
+		} else if ( imageHandling == 'link' ) {
+			attachments.push( ...imagesOrAttachments.splice( 0 ) );
+		}
+
+		if ( !images.length && !attachments.length && !imagesOrAttachments.length ) {
+			return false;
+		}
+
+		if ( attachments.length ) {
+			editor.execute( 'uploadFile', { file: attachments } );
+		}
+
+		if ( images.length ) {
+			editor.execute( 'uploadImage', { file: images } );
+		}
+
+		if ( imagesOrAttachments.length ) {
+			// The selection can be moved while the choice is made, keep the place where the files were pasted or dropped.
+			const targetRanges = Array.from( editor.model.document.selection.getRanges(), range => LiveRange.fromRange( range ) );
+
+			this.chooseImageHandling( imagesOrAttachments )
+				.then( choice => {
+					if ( !choice ) {
+						return;
+					}
+
+					editor.model.change( writer => {
+						writer.setSelection( targetRanges.map( range => range.toRange() ) );
+					} );
+
+					editor.execute( choice == 'image' ? 'uploadImage' : 'uploadFile', { file: imagesOrAttachments } );
+				} )
+				// The images are not inserted if the choice could not be made, like when the choice is canceled.
+				.catch( () => {} )
+				.finally( () => {
+					targetRanges.forEach( range => range.detach() );
+				} );
+		}
+
+		return true;
+	}
+
+	/**
+	 * Checks whether the file can be inserted with {@link #insertFiles}: it is of one of the allowed
+	 * {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#fileTypes file types} or it is an image accepted
+	 * by the image upload feature.
+	 *
+	 * @param file The file, or the name and the type of the file, e.g. a file dragged over the editor whose name is not known yet.
+	 */
+	public isAcceptedFile( file: Pick<File, 'name' | 'type'> ): boolean {
+		const isAllowedFile = createFileTypeMatcher( this.editor.config.get( 'fileUploader.fileTypes' )! );
+
+		return isAllowedFile( file ) || this._createImageMatcher()( file );
+	}
+
+	/**
+	 * Chooses whether to insert the images as images or as file attachments when
+	 * {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#imageHandling `config.fileUploader.imageHandling`}
+	 * is `'ask'`. The method is decorated, the {@link module:file-uploader/fileuploadui~FileUploadUI} plugin asks the user
+	 * in a dialog. The images are inserted as images if no listener provides the choice.
+	 *
+	 * The listeners receive the files as the first argument and can base the choice on them:
+	 *
+	 * ```ts
+	 * editor.plugins.get( 'FileUploadEditing' ).on( 'chooseImageHandling', ( evt, [ files ] ) => {
+	 * 	evt.return = Promise.resolve( files.some( file => file.size > 1024 * 1024 ) ? 'link' : 'image' );
+	 * 	evt.stop();
+	 * }, { priority: 'highest' } );
+	 * ```
+	 *
+	 * @param files The images to insert.
+	 * @returns A promise resolved with `'image'`, `'link'` (insert as file attachments) or `null` (do not insert the files,
+	 * e.g. when there are none).
+	 */
+	public chooseImageHandling( files: Array<File> ): Promise<'image' | 'link' | null> {
+		return Promise.resolve( files.length ? 'image' : null );
+	}
+
+	/**
+	 * Returns a promise that is resolved when no file is being uploaded, i.e. all files are either uploaded or
+	 * their upload failed (and no automatic retry is scheduled).
+	 *
+	 * ```ts
+	 * await editor.plugins.get( 'FileUploadEditing' ).uploadsSettled();
+	 *
+	 * save( editor.getData() );
+	 * ```
+	 */
+	public uploadsSettled(): Promise<void> {
+		return new Promise( resolve => {
+			if ( !this.isUploading ) {
+				return resolve();
+			}
+
+			this.on<ObservableChangeEvent<boolean>>( 'change:isUploading', ( evt, name, isUploading ) => {
+				if ( !isUploading ) {
+					evt.off();
+					resolve();
+				}
+			} );
+		} );
+	}
+
+	/**
+	 * Checks whether there is a failed upload in the editor content that can be retried. The uploads waiting for the network
+	 * connection (in the `'pending-offline'` status, see {@link module:file-uploader/fileuploadpersistence~FileUploadPersistence})
+	 * are handled as the failed ones.
+	 *
+	 * @param uploadId The id of the failed upload. If not set, any failed upload is checked.
+	 */
+	public hasFailedUpload( uploadId?: string ): boolean {
+		const uploadIds = uploadId ? [ uploadId ] : Array.from( this._uploadFileElements.keys() );
+
+		return uploadIds.some( uploadId => {
+			const fileElement = this._uploadFileElements.get( uploadId );
+			const status = fileElement && fileElement.getAttribute( 'uploadStatus' );
+
+			return !!fileElement &&
+				this._uploadFiles.has( uploadId ) &&
+				( status == 'error' || status == 'pending-offline' ) &&
+				fileElement.root.rootName != '$graveyard';
+		} );
+	}
+
+	/**
+	 * Checks whether there is an upload in progress or a failed upload in the editor content.
+	 *
+	 * @param uploadId The id of the upload. If not set, any upload is checked.
+	 */
+	public hasActiveUpload( uploadId?: string ): boolean {
+		const fileElements = uploadId ? [ this._uploadFileElements.get( uploadId ) ] : this._uploadFileElements.values();
+
+		for ( const fileElement of fileElements ) {
+			if ( fileElement && fileElement.root.rootName != '$graveyard' ) {
+				return true;
+			}
+		}
+
+		return false;
+	}
+
+	/**
+	 * Returns the uploads tracked in the editor content, i.e. the queued uploads, the uploads in progress and the failed ones,
+	 * in the order they were started.
+	 */
+	public getUploads(): Array<FileUploadEntry> {
+		const fileRepository = this.editor.plugins.get( FileRepository );
+		const uploads: Array<FileUploadEntry> = [];
+
+		for ( const [ uploadId, fileElement ] of this._uploadFileElements ) {
+			if ( fileElement.root.rootName != '$graveyard' ) {
+				uploads.push( { uploadId, fileElement, loader: fileRepository.loaders.get( uploadId ) } );
+			}
+		}
+
+		return uploads;
+	}
+
+	/**
+	 * Cancels an upload in progress or discards a failed upload. The file loader is aborted and the file attachment
+	 * is removed from the content in a non-undoable batch.
+	 *
+	 * @param uploadId The id of the upload.
+	 */
+	public cancelUpload( uploadId: string ): void {
+		const editor = this.editor;
+		const fileRepository = editor.plugins.get( FileRepository );
+
+		if ( !this.hasActiveUpload( uploadId ) ) {
+			return;
+		}
+
+		const fileElement = this._uploadFileElements.get( uploadId )!;
+		const loader = fileRepository.loaders.get( uploadId );
+
+		// Forget the upload first, so the pending read or upload does not try to resolve it anymore.
+		this._uploadFileElements.delete( uploadId );
+		this._uploadFiles.delete( uploadId );
+		this._uploadRetries.delete( uploadId );
+
+		if ( this._retryTimeouts.has( uploadId ) ) {
+			clearTimeout( this._retryTimeouts.get( uploadId ) );
+			this._retryTimeouts.delete( uploadId );
+			this._updateIsUploading();
+		}
+
+		editor.model.enqueueChange( { isUndoable: false }, writer => {
+			writer.remove( fileElement );
+		} );
+
+		if ( loader ) {
+			this._dequeueUpload( loader );
+
+			loader.abort();
+			fileRepository.destroyLoader( loader );
+		}
+	}
+
+	/**
+	 * Registers the file of a file attachment that has an upload id but no file loader, e.g. a file attachment restored
+	 * with the editor data by the {@link module:file-uploader/fileuploadpersistence~FileUploadPersistence} plugin.
+	 * The file attachment is handled as a failed upload, so it can be uploaded with {@link #retryUpload} or canceled.
+	 *
+	 * @param fileElement The file attachment element with the `uploadId` attribute.
+	 * @param file The file to upload.
+	 */
+	public restoreUpload( fileElement: Element, file: File ): void {
+		const uploadId = fileElement.getAttribute( 'uploadId' ) as string;
+
+		this._uploadFileElements.set( uploadId, fileElement );
+		this._uploadFiles.set( uploadId, file );
+	}
+
+	/**
+	 * Retries a failed upload. A new {@link module:upload/filerepository~FileLoader file loader} is created
+	 * for the original file and the file attachment element is uploaded again.
+	 *
+	 * @param uploadId The id of the failed upload.
+	 */
+	public retryUpload( uploadId: string ): void {
+		if ( !this.hasFailedUpload( uploadId ) ) {
+			return;
+		}
+
+		this._restartUpload( uploadId );
+	}
+
+	/**
+	 * Uploads the file of a failed or removed upload again with a new {@link module:upload/filerepository~FileLoader file loader}.
+	 * The file attachment element gets the id of the new upload.
+	 */
+	private _restartUpload( uploadId: string ): void {
+		const editor = this.editor;
+		const fileElement = this._uploadFileElements.get( uploadId )!;
+		const file = this._uploadFiles.get( uploadId )!;
+		const retries = this._uploadRetries.get( uploadId ) || 0;
+		const loader = editor.plugins.get( FileRepository ).createLoader( file );
+
+		// Do not throw when upload adapter is not set. FileRepository will log an error anyway.
+		if ( !loader ) {
+			return;
+		}
+
+		this._uploadFileElements.delete( uploadId );
+		this._uploadFiles.delete( uploadId );
+		this._uploadRetries.delete( uploadId );
+
+		this._uploadFileElements.set( loader.id, fileElement );
+		this._uploadFiles.set( loader.id, file );
+		this._uploadRetries.set( loader.id, retries );
+
+		editor.model.enqueueChange( { isUndoable: false }, writer => {
+			writer.setAttribute( 'uploadId', loader.id, fileElement );
+		} );
+
+		this._updateIsUploading();
+		this._enqueueUpload( loader );
+	}
+
+	/**
+	 * Creates a function that checks whether a file is an image accepted by the image upload feature, like the feature does.
+	 * No file is an image if the `uploadImage` command is not available.
+	 */
+	private _createImageMatcher(): ( file: Pick<File, 'type'> ) => boolean {
+		const uploadImageCommand = this.editor.commands.get( 'uploadImage' );
+
+		if ( !uploadImageCommand || !uploadImageCommand.isEnabled ) {
+			return () => false;
+		}
+
+		const imageTypes = this.editor.config.get( 'image.upload.types' ) as Array<string>;
+		const imageTypeRegExp = new RegExp( `^image\\/(${ imageTypes.map( type => type.replace( '+', '\\+' ) ).join( '|' ) })$` );
+
+		return file => imageTypeRegExp.test( file.type );
+	}
+
+	/**
+	 * Starts the upload of the file or puts it in the upload queue if the limit of concurrent uploads is reached.
+	 */
+	private _enqueueUpload( loader: FileLoader ): void {
+		const maxConcurrentUploads = this.editor.config.get( 'fileUploader.maxConcurrentUploads' );
+
+		if ( this._activeUploads.has( loader.id ) || this._uploadQueue.includes( loader ) ) {
+			return;
+		}
+
+		if ( !maxConcurrentUploads || this._activeUploads.size < maxConcurrentUploads ) {
+			this._startUpload( loader );
+
+			return;
+		}
+
+		this._uploadQueue.push( loader );
+
+		this.editor.model.enqueueChange( { isUndoable: false }, writer => {
+			writer.setAttribute( 'uploadStatus', 'queued', this._uploadFileElements.get( loader.id )! );
+		} );
+	}
+
+	/**
+	 * Removes the loader from the upload queue.
+	 *
+	 * @returns `true` if the loader was queued.
+	 */
+	private _dequeueUpload( loader: FileLoader ): boolean {
+		const index = this._uploadQueue.indexOf( loader );
+
+		if ( index == -1 ) {
+			return false;
+		}
+
+		this._uploadQueue.splice( index, 1 );
+
+		return true;
+	}
+
+	/**
+	 * Reads and uploads the file and starts the next queued upload when it is finished.
+	 */
+	private _startUpload( loader: FileLoader ): void {
+		this._activeUploads.add( loader.id );
+
+		this._readAndUpload( loader )
+			// Something else than the upload went wrong. Keep the file in the content as a failed upload, so it can be retried.
+			.catch( () => {
+				const fileElement = this._uploadFileElements.get( loader.id );
+
+				if ( fileElement ) {
+					this.editor.model.enqueueChange( { isUndoable: false }, writer => {
+						writer.setAttribute( 'uploadStatus', 'error', fileElement );
+					} );
+				}
+
+				loader.abort();
+				this.editor.plugins.get( FileRepository ).destroyLoader( loader );
+				this._updateIsUploading();
+			} )
+			.finally( () => {
+				this._releaseUploadSlot( loader );
+			} );
+	}
+
+	/**
+	 * Frees the upload slot of the loader (see `config.fileUploader.maxConcurrentUploads`) and starts the next queued upload.
+	 */
+	private _releaseUploadSlot( loader: FileLoader ): void {
+		if ( !this._activeUploads.delete( loader.id ) ) {
+			return;
+		}
+
+		const nextLoader = this._uploadQueue.shift();
+
+		if ( nextLoader ) {
+			this._startUpload( nextLoader );
+		}
+	}
+
+	/**
+	 * Uploads the file, unless the file is already on the server. With `config.fileUploader.deduplicateFiles`, the response
+	 * of the upload of an identical file in this editor is reused (an upload in progress is waited for). With
+	 * `config.fileUploader.lookupByHash`, the server is asked for the file first. The file is uploaded if both fail,
+	 * or if the hash of the file cannot be computed. The remote files (see `config.fileUploader.urlHandling`) and the files larger
+	 * than `config.fileUploader.maxHashedFileSize` are always uploaded.
+	 *
+	 * A file waiting for the upload of an identical file does not take an upload slot. The progress of a reused upload is complete.
+	 */
+	private _uploadOrReuse( loader: FileLoader, file: File | null ): Promise<UploadResponse> {
+		const editor = this.editor;
+		const fileRepository = editor.plugins.get( FileRepository );
+		const deduplicateFiles = editor.config.get( 'fileUploader.deduplicateFiles' );
+		const lookupByHash = editor.config.get( 'fileUploader.lookupByHash' );
+		const maxHashedFileSize = editor.config.get( 'fileUploader.maxHashedFileSize' );
+
+		if (
+			!file ||
+			isRemoteFile( file ) ||
+			( !deduplicateFiles && !lookupByHash ) ||
+			( maxHashedFileSize && file.size > maxHashedFileSize )
+		) {
+			return loader.upload();
+		}
+
+		// The upload can be aborted or canceled while the file is hashed or looked up, the loader cannot be used then.
+		const checkLoader = () => {
+			if ( loader.status != 'idle' || !fileRepository.loaders.has( loader.id ) ) {
+				throw 'aborted';
+			}
+		};
+
+		return computeFileHash( file ).then( hash => {
+			checkLoader();
+
+			const previousUpload = deduplicateFiles && this._uploadsByHash.get( hash );
+			const lookup = () => lookupByHash ? Promise.resolve().then( () => lookupByHash( hash, file ) ).catch( () => null ) : null;
+
+			if ( previousUpload ) {
+				this._releaseUploadSlot( loader );
+			}
+
+			const upload = ( previousUpload ? previousUpload.catch( () => null ) : Promise.resolve( null ) )
+				.then( response => response || lookup() )
+				.then( response => {
+					checkLoader();
+
+					if ( response ) {
+						loader.uploadTotal = file.size;
+						loader.uploaded = file.size;
+
+						return response;
+					}
+
+					// The identical file failed to upload, this one is uploaded without waiting for a free slot again.
+					this._activeUploads.add( loader.id );
+
+					return loader.upload();
+				} );
+
+			if ( deduplicateFiles ) {
+				this._uploadsByHash.set( hash, upload );
+				this._uploadHashes.set( loader.id, hash );
+
+				// Forget the failed upload, unless an identical file is uploaded again in the meantime.
+				upload.catch( () => {
+					if ( this._uploadsByHash.get( hash ) == upload ) {
+						this._uploadsByHash.delete( hash );
+					}
+				} );
+			}
+
+			return upload;
+		}, () => {
+			checkLoader();
+
+			return loader.upload();
+		} );
+	}
+
+	/**
+	 * Updates the {@link #isUploading} property and the pending actions of the uploads. An upload keeps the editor busy
+	 * (e.g. to warn before leaving the page) while it is queued or uploaded, and while its automatic retry is scheduled.
+	 */
+	private _updateIsUploading(): void {
+		const editor = this.editor;
+		const t = editor.locale.t;
+		const fileRepository = editor.plugins.get( FileRepository );
+		const pendingActions = editor.plugins.get( PendingActions );
+		const busyUploadIds = new Set( this._retryTimeouts.keys() );
+
+		for ( const uploadId of this._uploadFileElements.keys() ) {
+			if ( fileRepository.loaders.has( uploadId ) ) {
+				busyUploadIds.add( uploadId );
+			}
+		}
+
+		// Add the new pending actions first, so the editor does not stop being busy when an upload is retried.
+		for ( const uploadId of busyUploadIds ) {
+			if ( this._pendingActions.has( uploadId ) ) {
+				continue;
+			}
+
+			const loader = fileRepository.loaders.get( uploadId );
+			const getMessage = ( percent: number ) => {
+				const fileElement = this._uploadFileElements.get( uploadId );
+				const fileName = fileElement ? String( fileElement.getAttribute( 'fileName' ) || '' ) : '';
+
+				return t( 'Uploading "%0" (%1%).', [ fileName, Math.round( percent ) ] );
+			};
+			const pendingAction = pendingActions.add( getMessage( 0 ) );
+
+			if ( loader ) {
+				pendingAction.bind( 'message' ).to( loader, 'uploadedPercent', getMessage );
+			}
+
+			this._pendingActions.set( uploadId, pendingAction );
+		}
+
+		for ( const [ uploadId, pendingAction ] of this._pendingActions ) {
+			if ( !busyUploadIds.has( uploadId ) ) {
+				pendingAction.unbind( 'message' );
+				pendingActions.remove( pendingAction );
+				this._pendingActions.delete( uploadId );
+			}
+		}
+
+		this.isUploading = busyUploadIds.size > 0;
+		this._updateUploadedPercent();
+	}
+
+	/**
+	 * Updates the {@link #uploadedPercent} property from the loaders of the file attachment uploads.
+	 */
+	private _updateUploadedPercent(): void {
+		const fileRepository = this.editor.plugins.get( FileRepository );
+		let uploaded = 0;
+		let uploadTotal = 0;
+
+		for ( const uploadId of this._uploadFileElements.keys() ) {
+			const loader = fileRepository.loaders.get( uploadId );
+
+			if ( loader && loader.uploadTotal ) {
+				uploaded += loader.uploaded;
+				uploadTotal += loader.uploadTotal;
+			}
+		}
+
+		this.uploadedPercent = uploadTotal ? uploaded / uploadTotal * 100 : 0;
+	}
+
 	/**
 	 * Reads and uploads a file.
 	 *
-	 * The image is read from the disk and as a Base64-encoded string it is set temporarily to
-	 * `image[src]`. When the image is successfully uploaded, the temporary data is replaced with the target
-	 * image's URL (the URL to the uploaded image on the server).
+	 * The file attachment is inserted with an empty `linkHref` attribute. When the file is successfully uploaded,
+	 * the attribute is set to the file's URL on the server.
 	 */
 	protected _readAndUpload( loader: FileLoader ): Promise<void> {
 		const editor = this.editor;
@@ -262,54 +1104,132 @@ export default class FileUploadEditing extends Plugin {
 		const fileRepository = editor.plugins.get( FileRepository );
 		const notification = editor.plugins.get( Notification );
 		const fileUploadElements = this._uploadFileElements;
+		const uploadFiles = this._uploadFiles;
+		const uploadRetries = this._uploadRetries;
 
-		model.enqueueChange( { isUndoable: false }, writer => {
-			writer.setAttribute( 'uploadStatus', 'reading', fileUploadElements.get( loader.id )! );
-		} );
+		// Keeps the failed file in the content so the upload can be retried automatically or by the user.
+		const handleError = ( error: string ) => {
+			const uploadId = loader.id;
+			const retries = uploadRetries.get( uploadId ) || 0;
+			const maxRetries = editor.config.get( 'fileUploader.uploadRetries' )!;
+			const retryDelay = editor.config.get( 'fileUploader.uploadRetryDelay' )!;
+
+			model.enqueueChange( { isUndoable: false }, writer => {
+				writer.setAttribute( 'uploadStatus', 'error', fileUploadElements.get( uploadId )! );
+			} );
+
+			if ( retries < maxRetries ) {
+				// Double the delay after every attempt.
+				const timeout = setTimeout( () => {
+					// The retry is added before the scheduled one is forgotten, so the editor stays busy.
+					this.retryUpload( uploadId );
+					this._retryTimeouts.delete( uploadId );
+					this._updateIsUploading();
+				}, retryDelay * Math.pow( 2, retries ) );
+
+				this._retryTimeouts.set( uploadId, timeout );
+				uploadRetries.set( uploadId, retries + 1 );
+				this._updateIsUploading();
+			} else if ( error ) {
+				notification.showWarning( error, {
+					title: t( 'Upload failed' ),
+					namespace: 'upload'
+				} );
+			}
+
+			// The loader is destroyed after the retry is scheduled, so the upload keeps its pending action.
+			fileRepository.destroyLoader( loader );
+		};
 
-		return loader.read()
-			.then( () => {
-				const promise = loader.upload();
+		// The file is not read into the memory (as a data URL), the adapters upload the `File` object directly.
+		// Reading a large file would only waste the memory before it is uploaded (or sent in chunks).
+		// The file attachment is marked as uploading as soon as the file is available.
+		return loader.file
+			.then( file => {
+				const promise = this._uploadOrReuse( loader, file );
 				const fileElement = fileUploadElements.get( loader.id )!;
 
 				model.enqueueChange( { isUndoable: false }, writer => {
 					writer.setAttribute( 'uploadStatus', 'uploading', fileElement );
+
+					// The details of a pasted file are known only when the file is fetched.
+					if ( file && !fileElement.getAttribute( 'fileName' ) ) {
+						writer.setAttribute( 'fileName', editor.config.get( 'fileUploader.formatLabel' )!( {
+							name: file.name,
+							size: file.size,
+							type: getFileType( file )
+						} ), fileElement );
+					}
+
+					// The size and type of a remote file are known only when it is fetched by the server.
+					if ( file && isRemoteFile( file ) ) {
+						return;
+					}
+
+					if ( file && !fileElement.hasAttribute( 'fileSize' ) ) {
+						writer.setAttribute( 'fileSize', file.size, fileElement );
+					}
+
+					if ( file && !fileElement.hasAttribute( 'fileType' ) && getFileType( file ) ) {
+						writer.setAttribute( 'fileType', getFileType( file ), fileElement );
+					}
 				} );
 
 				return promise;
 			} )
 			.then( data => {
-				model.enqueueChange( { isUndoable: false }, writer => {
-					const fileElement = fileUploadElements.get( loader.id )!;
+				// The upload was canceled in the meantime.
+				if ( !fileUploadElements.has( loader.id ) ) {
+					return;
+				}
 
+				const fileElement = fileUploadElements.get( loader.id )!;
+
+				model.enqueueChange( { isUndoable: false }, writer => {
 					writer.setAttribute( 'uploadStatus', 'complete', fileElement );
 
 					this.fire<FileUploadCompleteEvent>( 'uploadComplete', { data, fileElement } );
 				} );
 
+				// Remember the hash of the uploaded file until its file attachments are removed.
+				const hash = this._uploadHashes.get( loader.id );
+
+				if ( hash && fileElement.getAttribute( 'linkHref' ) ) {
+					this._linkedHashes.set( fileElement.getAttribute( 'linkHref' ) as string, hash );
+				}
+
 				clean();
 			} )
 			.catch( error => {
+				// The upload was canceled in the meantime.
+				if ( !fileUploadElements.has( loader.id ) ) {
+					return;
+				}
+
+				// The loader is still idle if the file could not be obtained.
+				const status = loader.status == 'idle' ? 'error' : loader.status;
+
 				// If status is not 'error' nor 'aborted' - throw error because it means that something else went wrong,
 				// it might be generic error and it would be real pain to find what is going on.
-				if ( loader.status !== 'error' && loader.status !== 'aborted' ) {
+				if ( status !== 'error' && status !== 'aborted' ) {
 					throw error;
 				}
 
-				// Might be 'aborted'.
-				if ( loader.status == 'error' && error ) {
-					notification.showWarning( error, {
-						title: t( 'Upload failed' ),
-						namespace: 'upload'
-					} );
+				if ( status == 'error' ) {
+					handleError( error );
+
+					return;
 				}
 
-				// Permanently remove image from insertion batch.
+				// Permanently remove the aborted file from insertion batch.
 				model.enqueueChange( { isUndoable: false }, writer => {
 					writer.remove( fileUploadElements.get( loader.id )! );
 				} );
 
 				clean();
+			} )
+			.finally( () => {
+				this._uploadHashes.delete( loader.id );
 			} );
 
 		function clean() {
@@ -322,11 +1242,54 @@ export default class FileUploadEditing extends Plugin {
 				fileUploadElements.delete( loader.id );
 			} );
 
+			uploadFiles.delete( loader.id );
+			uploadRetries.delete( loader.id );
+
 			fileRepository.destroyLoader( loader );
 		}
 	}
 }
 
+/**
+ * Maps the response of the upload adapter to the file attachment attributes using the
+ * {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#responseMapping `config.fileUploader.responseMapping`}.
+ * The mapped `fileSize` is converted to a number, and it is left out if it is not a valid number.
+ */
+function getResponseAttributes(
+	response: UploadResponse,
+	mapping: FileUploaderConfig[ 'responseMapping' ]
+): Record<string, unknown> {
+	if ( !mapping ) {
+		return {};
+	}
+
+	let attributes: Record<string, unknown> = {};
+
+	if ( typeof mapping == 'function' ) {
+		attributes = { ...mapping( response ) };
+	} else {
+		for ( const [ attributeName, path ] of Object.entries( mapping ) ) {
+			// Resolve the dot-separated path, e.g. `'file.id'`.
+			attributes[ attributeName ] = path.split( '.' ).reduce<unknown>(
+				( value, key ) => value && typeof value == 'object' ? ( value as Record<string, unknown> )[ key ] : undefined,
+				response
+			);
+		}
+	}
+
+	if ( attributes.fileSize !== undefined && attributes.fileSize !== null ) {
+		const fileSize = typeof attributes.fileSize == 'string' && !attributes.fileSize.trim() ? NaN : Number( attributes.fileSize );
+
+		if ( Number.isFinite( fileSize ) ) {
+			attributes.fileSize = fileSize;
+		} else {
+			delete attributes.fileSize;
+		}
+	}
+
+	return attributes;
+}
+
 /**
  * Returns `true` if non-empty `text/html` is included in the data transfer.
  */
@@ -334,10 +1297,10 @@ export function isHtmlIncluded( dataTransfer: DataTransfer ): boolean {
 	return Array.from( dataTransfer.types ).includes( 'text/html' ) && dataTransfer.getData( 'text/html' ) !== '';
 }
 
-function getFilesFromChangeItem( editor: Editor, item: Item ): Array<Item> {
+function getFilesFromChangeItem( editor: Editor, item: Item ): Array<Element> {
 	return Array.from( editor.model.createRangeOn( item ) )
-		.filter( value => value.item.hasAttribute( 'linkHref' ) )
-		.map( value => value.item );
+		.map( value => value.item )
+		.filter( isFileAttachment );
 }
 
 /**
@@ -382,7 +1345,29 @@ export type FileUploadCompleteData = {
 	data: UploadResponse;
 
 	/**
-	 * The model {@link module:engine/model/element~Element image element} that can be customized.
+	 * The `fileAttachment` or `fileAttachmentInline` model {@link module:engine/model/element~Element element}
+	 * that can be customized.
 	 */
 	fileElement: Element;
 };
+
+/**
+ * An upload tracked by the {@link module:file-uploader/fileuploadediting~FileUploadEditing} plugin.
+ */
+export type FileUploadEntry = {
+
+	/**
+	 * The id of the upload.
+	 */
+	uploadId: string;
+
+	/**
+	 * The uploaded `fileAttachment` or `fileAttachmentInline` model element. Its `uploadStatus` attribute holds the status of the upload.
+	 */
+	fileElement: Element;
+
+	/**
+	 * The file loader of the upload. It is `null` when the upload failed.
+	 */
+	loader: FileLoader | null;
+};
@@ -1,13 +1,37 @@
 import { Plugin } from 'ckeditor5/src/core';
 import FileUploadEditing from './fileuploadediting';
+import FileUploadProgress from './fileuploadprogress';
 import FileUploadUI from './fileuploadui';
+import FileUploadManagerUI from './fileuploadmanagerui';
+import FileAttachmentToolbar from './fileattachmenttoolbar';
+import FileAttachmentRepository, { type FileAttachmentInfo } from './fileattachmentrepository';
+import FileAttachmentListUI from './fileattachmentlistui';
 
 export default class FileUploader extends Plugin {
 	public static get requires() {
-		return [ FileUploadEditing, FileUploadUI ] as const;
+		return [
+			FileUploadEditing,
+			FileUploadUI,
+			FileUploadManagerUI,
+			FileUploadProgress,
+			FileAttachmentToolbar,
+			FileAttachmentRepository,
+			FileAttachmentListUI
+		] as const;
 	}
 
 	public static get pluginName() {
 		return 'FileUploader' as const;
 	}
+
+	/**
+	 * Returns all file attachments in the editor content in the document order, including the files being uploaded.
+	 *
+	 * ```ts
+	 * const fileIds = editor.plugins.get( 'FileUploader' ).getAttachments().map( attachment => attachment.fileId );
+	 * ```
+	 */
+	public getAttachments(): Array<FileAttachmentInfo> {
+		return this.editor.plugins.get( FileAttachmentRepository ).getAttachments();
+	}
 }
@@ -0,0 +1,510 @@
+/**
+ * @module file-uploader/fileuploaderconfig
+ */
+
+import type { ToolbarConfigItem } from 'ckeditor5/src/core';
+import type { UploadResponse } from 'ckeditor5/src/upload';
+
+import type { FileAttachmentData } from './fileattachmentrepository';
+
+/**
+ * The configuration of the file uploader feature.
+ *
+ * ```ts
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		fileUploader: {
+ * 			fileTypes: [ 'pdf', 'docx' ],
+ * 			maxFileSize: 10 * 1024 * 1024
+ * 		}
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ *
+ * See {@link module:core/editor/editorconfig~EditorConfig all editor options}.
+ */
+export interface FileUploaderConfig {
+
+	/**
+	 * The list of file types that are allowed to be uploaded: file extensions (e.g. `'pdf'`), MIME types
+	 * (e.g. `'application/vnd.ms-excel'`) or MIME types with wildcards (e.g. `'image/*'` or `'application/vnd.openxmlformats-*'`).
+	 * Files with an unknown (empty) type are matched by their extension.
+	 *
+	 * @default [ 'pdf' ]
+	 */
+	fileTypes?: Array<string>;
+
+	/**
+	 * The maximum size of a single file in bytes. Larger files are rejected before the upload starts.
+	 * There is no limit by default.
+	 */
+	maxFileSize?: number;
+
+	/**
+	 * The maximum number of files inserted at once (e.g. picked in the file dialog or dropped into the editor).
+	 * The files above the limit are rejected. There is no limit by default.
+	 */
+	maxFilesPerInsert?: number;
+
+	/**
+	 * The maximum total size in bytes of all file attachments in the editor content, including the inserted files.
+	 * Files that would exceed the quota are rejected. There is no limit by default.
+	 */
+	maxTotalSize?: number;
+
+	/**
+	 * The number of automatic retries of a failed upload. The failed file stays in the content and can also be
+	 * retried manually with the `retryFileUpload` command.
+	 *
+	 * @default 0
+	 */
+	uploadRetries?: number;
+
+	/**
+	 * The delay in milliseconds before the first automatic retry of a failed upload. The delay is doubled after every attempt.
+	 *
+	 * @default 1000
+	 */
+	uploadRetryDelay?: number;
+
+	/**
+	 * The maximum number of files uploaded at the same time. The files above the limit wait in a queue
+	 * (with the `'queued'` upload status) and are uploaded in the order they were inserted. There is no limit by default.
+	 */
+	maxConcurrentUploads?: number;
+
+	/**
+	 * Maps the fields of the upload response to the attributes of the file attachment, e.g. the id of the file on the server,
+	 * the canonical file name, size and MIME type. The mapped attributes are set when the upload is complete. By default,
+	 * only the link of the file is set (from `urls.default` of the response).
+	 *
+	 * The mapping is an object with the attribute names as keys and dot-separated paths to the response fields as values:
+	 *
+	 * ```ts
+	 * responseMapping: {
+	 * 	fileId: 'id',
+	 * 	fileName: 'file.name',
+	 * 	fileSize: 'file.size',
+	 * 	fileType: 'file.mimeType'
+	 * }
+	 * ```
+	 *
+	 * or a callback returning the attributes:
+	 *
+	 * ```ts
+	 * responseMapping: response => ( { fileId: String( response.id ) } )
+	 * ```
+	 *
+	 * The supported attributes are `linkHref`, `fileId`, `fileName`, `fileSize` and `fileType`. The `fileId` attribute
+	 * is saved in the `data-file-id` attribute of the file attachment link. The mapped `fileName` is the canonical name
+	 * of the file on the server, it replaces the label of the file attachment (formatted with {@link #formatLabel}).
+	 * The mapped `fileSize` is converted to a number, it is ignored if it is not a valid number.
+	 */
+	responseMapping?: Record<string, string> | ( ( response: UploadResponse ) => Record<string, unknown> );
+
+	/**
+	 * The items of the toolbar shown when a file attachment is selected. The available items are `'renameFileAttachment'`,
+	 * `'replaceFileAttachment'`, `'downloadFileAttachment'` and `'removeFileAttachment'`.
+	 *
+	 * @default [ 'renameFileAttachment', 'replaceFileAttachment', 'downloadFileAttachment', '|', 'removeFileAttachment' ]
+	 */
+	toolbar?: Array<ToolbarConfigItem>;
+
+	/**
+	 * Normalizes the names of the uploaded files, e.g. to remove characters the server storage does not accept.
+	 * Set to `true` to use the built-in {@link module:file-uploader/utils~sanitizeFileName sanitizer}, or provide a custom
+	 * function. The file is uploaded with the sanitized name, which is also used for the label of the file attachment.
+	 *
+	 * @default false
+	 */
+	sanitizeFileName?: boolean | ( ( fileName: string ) => string );
+
+	/**
+	 * Creates the label of a file attachment (the text of the file link) from the file name, size and MIME type.
+	 * It is used when a file is inserted, and when the canonical file name is received from the server
+	 * (see {@link #responseMapping}). The label can be changed later with the `renameFileAttachment` command.
+	 *
+	 * ```ts
+	 * // "Report (2.3 MB)"
+	 * formatLabel: ( { name, size } ) => `${ name.replace( /\.\w+$/, '' ) } (${ formatFileSize( size ) })`
+	 * ```
+	 *
+	 * The file name is used as the label by default.
+	 */
+	formatLabel?: ( file: FileLabelData ) => string;
+
+	/**
+	 * The custom SVG icons of the file attachments. The keys are the file type categories (`'pdf'`, `'word'`, `'spreadsheet'`,
+	 * `'archive'`, `'image'`, `'audio'`, `'video'` and `'generic'`), whose default icons are replaced, or file types
+	 * in the format of {@link #fileTypes}, which take precedence over the categories:
+	 *
+	 * ```ts
+	 * fileIcons: {
+	 * 	generic: '<svg ...>...</svg>',
+	 * 	dwg: '<svg ...>...</svg>',
+	 * 	'application/vnd.ms-powerpoint': '<svg ...>...</svg>'
+	 * }
+	 * ```
+	 *
+	 * The file type is read from the `fileType` attribute or determined from the file name.
+	 */
+	fileIcons?: Record<string, string>;
+
+	/**
+	 * Whether to add the class of the file type category to the file attachment links in the data output,
+	 * e.g. `<a class="file-attachment file-type-pdf" href="...">`, so the files can be styled by type outside of the editor.
+	 *
+	 * @default false
+	 */
+	fileTypeClass?: boolean;
+
+	/**
+	 * Whether to upload an identical file only once in the editor. The SHA-256 hash of every uploaded file is computed
+	 * (see {@link module:file-uploader/utils~computeFileHash}) and the upload response of a file with the same hash
+	 * is reused instead of uploading the file again, e.g. when the same file is pasted more than once. The upload is not reused
+	 * after the file is removed from the content, as it may be deleted from the server (see {@link #deleteFile}).
+	 *
+	 * Note that the whole file is read into the memory to compute its hash, so the files larger than {@link #maxHashedFileSize}
+	 * are not deduplicated.
+	 *
+	 * @default false
+	 */
+	deduplicateFiles?: boolean;
+
+	/**
+	 * The maximum size of a file (in bytes) hashed for the {@link #deduplicateFiles deduplication} and the {@link #lookupByHash lookup}.
+	 * The larger files are always uploaded, as reading them into the memory on the main thread would block the editor or fail.
+	 * Set to `0` to hash all files.
+	 *
+	 * @default 52428800 (50 MB)
+	 */
+	maxHashedFileSize?: number;
+
+	/**
+	 * A callback asking the server whether a file with the given SHA-256 hash is already stored there. If it resolves with
+	 * an upload response (like the one of the upload adapter), the file is not uploaded and the response is used instead:
+	 *
+	 * ```ts
+	 * lookupByHash: async hash => {
+	 * 	const response = await fetch( `/api/files?sha256=${ hash }` );
+	 *
+	 * 	return response.ok ? { default: ( await response.json() ).url } : null;
+	 * }
+	 * ```
+	 *
+	 * The callback is called before every upload (after the uploads of identical files in the editor are checked,
+	 * see {@link #deduplicateFiles}). The file is uploaded if the callback fails.
+	 */
+	lookupByHash?: ( hash: string, file: File ) => UploadResponse | null | undefined | Promise<UploadResponse | null | undefined>;
+
+	/**
+	 * How to insert the images that are accepted both by the image upload feature (see `config.image.upload.types`)
+	 * and by this feature (see {@link #fileTypes}) when they are pasted, dropped or picked with the `uploadFile` button:
+	 *
+	 * * `'image'` &ndash; as images, with the `uploadImage` command,
+	 * * `'link'` &ndash; as file attachments,
+	 * * `'ask'` &ndash; as chosen by the user in a dialog.
+	 *
+	 * The other images are always inserted as images, and the other files as file attachments. Without the image upload feature,
+	 * all files are inserted as file attachments.
+	 *
+	 * @default 'image'
+	 */
+	imageHandling?: 'image' | 'link' | 'ask';
+
+	/**
+	 * How to insert the files from URLs with the `insertFileFromUrl` command (the "Insert from URL" option
+	 * of the `uploadFile` dropdown):
+	 *
+	 * * `'link'` &ndash; as file attachments linking the remote files,
+	 * * `'fetch'` &ndash; the remote files are fetched and stored by the server. The files are uploaded like the local files
+	 * (with the same placeholder and progress), the upload adapter gets a file created with
+	 * {@link module:file-uploader/utils~createRemoteFile} and sends its URL to the server. It requires the
+	 * {@link module:file-uploader/fileuploadadapter~FileUploadAdapter upload adapter} shipped with this package with the
+	 * {@link FileUploadAdapterConfig#fetchUrl} option, the files are linked otherwise.
+	 *
+	 * The URLs are checked against the allowed {@link #fileTypes} by the file name extension.
+	 *
+	 * @default 'link'
+	 */
+	urlHandling?: 'link' | 'fetch';
+
+	/**
+	 * The names of the model elements the files cannot be inserted into, e.g. the code blocks where the links make no sense.
+	 * The `uploadFile` command is disabled when the selection is inside such element, and the files pasted or dropped
+	 * there are not inserted.
+	 *
+	 * @default [ 'codeBlock' ]
+	 */
+	disallowedParents?: Array<string>;
+
+	/**
+	 * A callback called for every file inserted with the `uploadFile` command before it is uploaded. It can reject the file,
+	 * replace it with a transformed file (e.g. renamed, compressed or with stripped metadata) or attach metadata to it:
+	 *
+	 * ```ts
+	 * validateFile: async file => {
+	 * 	if ( file.type == 'application/pdf' ) {
+	 * 		return { file: await stripPdfMetadata( file ), metadata: { source: 'editor' } };
+	 * 	}
+	 * }
+	 * ```
+	 *
+	 * The file is inserted into the content right away and uploaded when the callback is resolved. A file rejected with
+	 * an `error` message is removed from the content and the `uploadRejected` event of the `uploadFile` command is fired.
+	 * If the callback throws, the upload fails.
+	 */
+	validateFile?: ( file: File ) => FileValidationResult | undefined | Promise<FileValidationResult | undefined>;
+
+	/**
+	 * A callback deleting an uploaded file from the server when the file is removed from the editor content
+	 * (see {@link module:file-uploader/fileattachmentrepository~FileAttachmentRepository}):
+	 *
+	 * ```ts
+	 * deleteFile: file => fetch( `/api/files/${ file.fileId }`, { method: 'DELETE' } )
+	 * ```
+	 *
+	 * The callback is called after {@link #deleteFileDelay}, unless the file is added back to the content in the meantime
+	 * (e.g. by undo). Only the files uploaded in the editor are deleted, the files loaded with the editor data can still be
+	 * linked in the saved document. The files removed in the non-undoable changes (e.g. by replacing the editor data with
+	 * `editor.setData()`) are not deleted, nor the files whose deletion is pending when the editor is destroyed.
+	 */
+	deleteFile?: ( file: FileAttachmentData ) => unknown;
+
+	/**
+	 * The delay in milliseconds after which a file removed from the content is deleted with {@link #deleteFile}.
+	 *
+	 * @default 60000
+	 */
+	deleteFileDelay?: number;
+
+	/**
+	 * The configuration of the {@link module:file-uploader/fileuploadpersistence~FileUploadPersistence persistence}
+	 * of the pending uploads. It is used only when the `FileUploadPersistence` plugin is loaded.
+	 */
+	persistence?: FileUploadPersistenceConfig;
+
+	/**
+	 * The configuration of the {@link module:file-uploader/fileuploadadapter~FileUploadAdapter upload adapter}
+	 * shipped with this package. It is used only when the `FileUploadAdapter` plugin is loaded.
+	 */
+	adapter?: FileUploadAdapterConfig;
+}
+
+/**
+ * The data of a file passed to the {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#formatLabel `formatLabel`}
+ * callback.
+ */
+export interface FileLabelData {
+
+	/**
+	 * The file name.
+	 */
+	name: string;
+
+	/**
+	 * The file size in bytes.
+	 */
+	size: number;
+
+	/**
+	 * The MIME type of the file. It is empty if the type is not known.
+	 */
+	type: string;
+}
+
+/**
+ * The result of the {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#validateFile `validateFile`} callback.
+ */
+export interface FileValidationResult {
+
+	/**
+	 * The message explaining why the file is rejected. The file is not uploaded if it is set.
+	 */
+	error?: string;
+
+	/**
+	 * The file uploaded instead of the inserted one. The size, the type and (unless it was changed) the label
+	 * of the file attachment are updated accordingly.
+	 */
+	file?: File;
+
+	/**
+	 * The metadata of the file. The {@link module:file-uploader/fileuploadadapter~FileUploadAdapter upload adapter} sends it
+	 * as additional form fields (or in the `Upload-Metadata` header of a tus upload). Custom adapters can read it with
+	 * {@link module:file-uploader/utils~getFileMetadata}.
+	 */
+	metadata?: Record<string, string>;
+}
+
+/**
+ * The configuration of the {@link module:file-uploader/fileuploadadapter~FileUploadAdapter upload adapter}.
+ *
+ * ```ts
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		plugins: [ FileUploader, FileUploadAdapter, ... ],
+ * 		fileUploader: {
+ * 			adapter: {
+ * 				uploadUrl: '/api/uploads/',
+ * 				fieldName: 'file',
+ * 				fields: file => ( { title: file.name } ),
+ * 				csrfCookieName: 'csrftoken'
+ * 			}
+ * 		}
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ */
+export interface FileUploadAdapterConfig {
+
+	/**
+	 * The URL the files are uploaded to.
+	 */
+	uploadUrl: string;
+
+	/**
+	 * The URL of the endpoint fetching and storing the remote files inserted from URLs (see
+	 * {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#urlHandling}). The request is sent like the upload request,
+	 * but the form contains the URL of the file in the `url` field instead of the file. The server should respond like to an upload.
+	 *
+	 * The remote files are not fetched by the server without this option, the `'fetch'` URL handling links the files then.
+	 */
+	fetchUrl?: string;
+
+	/**
+	 * The HTTP method of the upload request.
+	 *
+	 * @default 'POST'
+	 */
+	method?: string;
+
+	/**
+	 * The name of the form field containing the file.
+	 *
+	 * @default 'upload'
+	 */
+	fieldName?: string;
+
+	/**
+	 * Additional form fields sent with every file. A callback can be used to provide different fields for each file.
+	 */
+	fields?: Record<string, string> | ( ( file: File ) => Record<string, string> );
+
+	/**
+	 * Additional headers sent with the upload request.
+	 */
+	headers?: Record<string, string>;
+
+	/**
+	 * Whether the credentials (cookies, authorization headers) are sent with a cross-site request.
+	 *
+	 * @default false
+	 */
+	withCredentials?: boolean;
+
+	/**
+	 * The name of the cookie containing the CSRF token, e.g. `'csrftoken'` for Django. If set, the token is read from
+	 * the cookie before every upload and sent in the {@link #csrfHeaderName} header.
+	 */
+	csrfCookieName?: string;
+
+	/**
+	 * The name of the header the CSRF token is sent in.
+	 *
+	 * @default 'X-CSRFToken'
+	 */
+	csrfHeaderName?: string;
+
+	/**
+	 * Enables uploading large files in chunks. An interrupted upload (e.g. retried after a dropped connection)
+	 * resumes from the bytes already received by the server.
+	 *
+	 * ```ts
+	 * adapter: {
+	 * 	uploadUrl: '/api/uploads/',
+	 * 	chunked: {
+	 * 		chunkSize: 10 * 1024 * 1024,
+	 * 		protocol: 'tus'
+	 * 	}
+	 * }
+	 * ```
+	 *
+	 * See {@link module:file-uploader/chunkedupload~ChunkedUpload} for the description of the protocols.
+	 */
+	chunked?: FileUploadChunkedConfig;
+}
+
+/**
+ * The configuration of the chunked upload in the {@link module:file-uploader/fileuploadadapter~FileUploadAdapter upload adapter}.
+ */
+export interface FileUploadChunkedConfig {
+
+	/**
+	 * The size of a single chunk in bytes. With the default protocol, files that are not larger than
+	 * a single chunk are uploaded in a regular request.
+	 *
+	 * @default 5242880
+	 */
+	chunkSize?: number;
+
+	/**
+	 * The protocol of the chunked upload:
+	 *
+	 * * `'default'` &ndash; each chunk is sent as a regular upload request with the `Content-Range` and `X-Upload-Id` headers,
+	 * * `'tus'` &ndash; the [tus resumable upload protocol](https://tus.io/protocols/resumable-upload) (version 1.0.0
+	 * with the creation extension). The `uploadUrl` is the tus creation endpoint.
+	 *
+	 * @default 'default'
+	 */
+	protocol?: 'default' | 'tus';
+}
+
+/**
+ * The configuration of the {@link module:file-uploader/fileuploadpersistence~FileUploadPersistence persistence} of the pending uploads.
+ *
+ * ```ts
+ * persistence: {
+ * 	databaseName: 'my-app-uploads'
+ * }
+ * ```
+ */
+export interface FileUploadPersistenceConfig {
+
+	/**
+	 * The name of the IndexedDB database storing the files. It is used only when no custom {@link #storage} is set.
+	 *
+	 * @default 'ckeditor5-file-uploads'
+	 */
+	databaseName?: string;
+
+	/**
+	 * A custom storage of the files, e.g. an in-memory one in the tests. By default, the files are stored in IndexedDB
+	 * (see {@link module:file-uploader/indexeddbfileuploadstorage~IndexedDBFileUploadStorage}).
+	 */
+	storage?: FileUploadStorage;
+}
+
+/**
+ * A storage of the files of the pending uploads by their upload ids, used by the
+ * {@link module:file-uploader/fileuploadpersistence~FileUploadPersistence} plugin.
+ */
+export interface FileUploadStorage {
+
+	/**
+	 * Returns the stored file, or `undefined` if there is no file for the upload id.
+	 */
+	get( uploadId: string ): Promise<File | undefined>;
+
+	/**
+	 * Stores the file for the upload id.
+	 */
+	set( uploadId: string, file: File ): Promise<void>;
+
+	/**
+	 * Removes the file of the upload id.
+	 */
+	delete( uploadId: string ): Promise<void>;
+}
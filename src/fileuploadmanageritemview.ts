@@ -0,0 +1,214 @@
+/**
+ * @module file-uploader/fileuploadmanageritemview
+ */
+
+import { ButtonView, View } from 'ckeditor5/src/ui';
+import type { Locale } from 'ckeditor5/src/utils';
+import { icons } from 'ckeditor5/src/core';
+
+import { formatFileSize } from './utils';
+
+/**
+ * The view of a single upload listed in the {@link module:file-uploader/fileuploadmanagerview~FileUploadManagerView}.
+ *
+ * It shows the name, the size, the status and the progress of the upload. The buttons of the view fire
+ * the `cancel`, `retry` and `scrollTo` events.
+ */
+export default class FileUploadManagerItemView extends View {
+	/**
+	 * The id of the upload.
+	 */
+	public readonly uploadId: string;
+
+	/**
+	 * The name of the uploaded file.
+	 *
+	 * @observable
+	 */
+	declare public fileName: string;
+
+	/**
+	 * The size of the uploaded file in bytes.
+	 *
+	 * @observable
+	 */
+	declare public fileSize: number | null;
+
+	/**
+	 * The status of the upload (the `uploadStatus` attribute of the file attachment).
+	 *
+	 * @observable
+	 */
+	declare public status: string;
+
+	/**
+	 * The upload progress in percents.
+	 *
+	 * @observable
+	 */
+	declare public uploadedPercent: number;
+
+	/**
+	 * The button that cancels the upload.
+	 */
+	public readonly cancelButtonView: ButtonView;
+
+	/**
+	 * The button that retries the failed upload.
+	 */
+	public readonly retryButtonView: ButtonView;
+
+	/**
+	 * The button that scrolls the editor to the file attachment.
+	 */
+	public readonly scrollToButtonView: ButtonView;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale, uploadId: string ) {
+		super( locale );
+
+		const t = this.locale!.t;
+		const bind = this.bindTemplate;
+
+		this.uploadId = uploadId;
+
+		this.set( {
+			fileName: '',
+			fileSize: null,
+			status: '',
+			uploadedPercent: 0
+		} );
+
+		this.cancelButtonView = this._createButton( t( 'Cancel upload' ), icons.cancel, 'cancel' );
+		this.cancelButtonView.bind( 'isVisible' ).to( this, 'status', status => status != 'error' );
+
+		this.retryButtonView = this._createButton( t( 'Retry upload' ), icons.redo, 'retry' );
+		this.retryButtonView.bind( 'isVisible' ).to( this, 'status', status => status == 'error' );
+
+		this.scrollToButtonView = this._createButton( t( 'Show in content' ), icons.loupe, 'scrollTo' );
+
+		this.setTemplate( {
+			tag: 'li',
+
+			attributes: {
+				class: [
+					'ck',
+					'ck-file-upload-manager__item',
+					bind.to( 'status', status => `ck-file-upload-manager__item_${ status }` )
+				]
+			},
+
+			children: [
+				{
+					tag: 'div',
+					attributes: {
+						class: [ 'ck', 'ck-file-upload-manager__info' ]
+					},
+					children: [
+						{
+							tag: 'span',
+							attributes: {
+								class: [ 'ck', 'ck-file-upload-manager__name' ]
+							},
+							children: [ { text: bind.to( 'fileName' ) } ]
+						},
+						{
+							tag: 'span',
+							attributes: {
+								class: [ 'ck', 'ck-file-upload-manager__details' ]
+							},
+							children: [
+								{ text: bind.to( 'fileSize', fileSize => fileSize === null ? '' : `${ formatFileSize( fileSize ) } ` ) },
+								{ text: bind.to( 'status', status => this._getStatusLabel( status ) ) }
+							]
+						},
+						{
+							tag: 'span',
+							attributes: {
+								class: [
+									'ck',
+									'ck-file-upload-manager__progress',
+									bind.if( 'status', 'ck-hidden', status => status != 'uploading' )
+								]
+							},
+							children: [ {
+								tag: 'span',
+								attributes: {
+									class: [ 'ck', 'ck-file-upload-manager__progress-bar' ],
+									style: {
+										width: bind.to( 'uploadedPercent', percent => `${ percent }%` )
+									}
+								}
+							} ]
+						}
+					]
+				},
+				{
+					tag: 'div',
+					attributes: {
+						class: [ 'ck', 'ck-file-upload-manager__actions' ]
+					},
+					children: this.createCollection( [
+						this.cancelButtonView,
+						this.retryButtonView,
+						this.scrollToButtonView
+					] )
+				}
+			]
+		} );
+	}
+
+	/**
+	 * Focuses the first visible button of the view.
+	 */
+	public focus(): void {
+		const button = [ this.cancelButtonView, this.retryButtonView, this.scrollToButtonView ].find( button => button.isVisible )!;
+
+		button.focus();
+	}
+
+	/**
+	 * Creates an action button which fires the given event of the view.
+	 *
+	 * @param label The button label.
+	 * @param icon The button icon.
+	 * @param eventName The event name that the `ButtonView#execute` event will be delegated to.
+	 */
+	private _createButton( label: string, icon: string, eventName: string ): ButtonView {
+		const button = new ButtonView( this.locale );
+
+		button.set( {
+			label,
+			icon,
+			tooltip: true
+		} );
+
+		button.delegate( 'execute' ).to( this, eventName );
+
+		return button;
+	}
+
+	/**
+	 * Returns the label of the upload status.
+	 */
+	private _getStatusLabel( status: string ): string {
+		const t = this.locale!.t;
+
+		switch ( status ) {
+			case 'queued':
+				return t( 'Queued' );
+			case 'uploading':
+				return t( 'Uploading' );
+			case 'complete':
+				return t( 'Uploaded' );
+			case 'error':
+				return t( 'Upload failed' );
+			case 'pending-offline':
+				return t( 'Waiting for the connection' );
+			default:
+				return '';
+		}
+	}
+}
@@ -0,0 +1,150 @@
+/**
+ * @module file-uploader/fileuploadmanagerui
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { createDropdown, type DropdownView } from 'ckeditor5/src/ui';
+import { FileRepository } from 'ckeditor5/src/upload';
+import type { Locale } from 'ckeditor5/src/utils';
+
+import FileUploadManagerView from './fileuploadmanagerview';
+import FileUploadManagerItemView from './fileuploadmanageritemview';
+
+/**
+ * The upload manager UI plugin.
+ *
+ * It registers the `'fileUploadManager'` dropdown in the {@link module:ui/componentfactory~ComponentFactory UI component factory}.
+ * The dropdown lists all uploads in the editor content (queued, in progress and failed) with their progress and status.
+ * Each upload can be canceled, retried (when it failed) or shown in the content.
+ */
+export default class FileUploadManagerUI extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ FileRepository ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'FileUploadManagerUI' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		editor.ui.componentFactory.add( 'fileUploadManager', locale => {
+			const dropdownView = createDropdown( locale );
+			const listView = new FileUploadManagerView( locale );
+
+			dropdownView.buttonView.set( {
+				tooltip: t( 'Upload manager' ),
+				withText: true
+			} );
+
+			dropdownView.panelView.children.add( listView );
+
+			const refresh = () => this._refreshList( locale, dropdownView, listView );
+
+			// The uploads change together with the `uploadId` and `uploadStatus` attributes of the file attachments.
+			this.listenTo( editor.model.document, 'change', refresh );
+			this.listenTo( editor.plugins.get( FileRepository ).loaders, 'change', refresh );
+
+			refresh();
+
+			return dropdownView;
+		} );
+	}
+
+	/**
+	 * Updates the listed uploads and the label of the dropdown button.
+	 */
+	private _refreshList( locale: Locale, dropdownView: DropdownView, listView: FileUploadManagerView ): void {
+		const t = this.editor.t;
+		const uploads = this.editor.plugins.get( 'FileUploadEditing' ).getUploads();
+		const uploadIds = new Set( uploads.map( ( { uploadId } ) => uploadId ) );
+
+		for ( const itemView of Array.from( listView.items ) ) {
+			if ( !uploadIds.has( itemView.uploadId ) ) {
+				listView.items.remove( itemView );
+				itemView.destroy();
+			}
+		}
+
+		for ( const { uploadId, fileElement, loader } of uploads ) {
+			let itemView = listView.items.find( itemView => itemView.uploadId == uploadId );
+
+			if ( !itemView ) {
+				itemView = this._createItemView( locale, dropdownView, uploadId );
+
+				if ( loader ) {
+					itemView.bind( 'uploadedPercent' ).to( loader );
+				}
+
+				listView.items.add( itemView );
+			}
+
+			itemView.set( {
+				fileName: String( fileElement.getAttribute( 'fileName' ) || '' ),
+				fileSize: fileElement.hasAttribute( 'fileSize' ) ? Number( fileElement.getAttribute( 'fileSize' ) ) : null,
+				status: String( fileElement.getAttribute( 'uploadStatus' ) || '' )
+			} );
+		}
+
+		dropdownView.buttonView.label = t( 'Uploads (%0)', [ uploads.length ] );
+	}
+
+	/**
+	 * Creates the view of an upload with the actions executed on the upload.
+	 */
+	private _createItemView( locale: Locale, dropdownView: DropdownView, uploadId: string ): FileUploadManagerItemView {
+		const editor = this.editor;
+		const fileUploadEditing = editor.plugins.get( 'FileUploadEditing' );
+		const itemView = new FileUploadManagerItemView( locale, uploadId );
+
+		// The commands can be executed for other uploads than this one, check the upload each time its status changes.
+		itemView.cancelButtonView.bind( 'isEnabled' ).to(
+			editor.commands.get( 'cancelFileUpload' )!, 'isEnabled',
+			itemView, 'status',
+			isEnabled => isEnabled && fileUploadEditing.hasActiveUpload( uploadId )
+		);
+		itemView.retryButtonView.bind( 'isEnabled' ).to(
+			editor.commands.get( 'retryFileUpload' )!, 'isEnabled',
+			itemView, 'status',
+			isEnabled => isEnabled && fileUploadEditing.hasFailedUpload( uploadId )
+		);
+
+		itemView.on( 'cancel', () => {
+			editor.execute( 'cancelFileUpload', { uploadId } );
+		} );
+
+		itemView.on( 'retry', () => {
+			editor.execute( 'retryFileUpload', { uploadId } );
+		} );
+
+		itemView.on( 'scrollTo', () => {
+			const upload = editor.plugins.get( 'FileUploadEditing' ).getUploads().find( upload => upload.uploadId == uploadId );
+
+			if ( !upload ) {
+				return;
+			}
+
+			editor.model.change( writer => {
+				writer.setSelection( upload.fileElement, 'on' );
+			} );
+
+			dropdownView.isOpen = false;
+
+			editor.editing.view.focus();
+			editor.editing.view.scrollToTheSelection();
+		} );
+
+		return itemView;
+	}
+}
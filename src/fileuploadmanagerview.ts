@@ -0,0 +1,88 @@
+/**
+ * @module file-uploader/fileuploadmanagerview
+ */
+
+import { View, type ViewCollection } from 'ckeditor5/src/ui';
+import type { Locale } from 'ckeditor5/src/utils';
+
+import type FileUploadManagerItemView from './fileuploadmanageritemview';
+
+import '../theme/fileuploadmanager.css';
+
+/**
+ * The upload manager view. It lists the {@link module:file-uploader/fileuploadmanageritemview~FileUploadManagerItemView uploads}
+ * in the editor content, or a message when there are none.
+ */
+export default class FileUploadManagerView extends View {
+	/**
+	 * The views of the listed uploads.
+	 */
+	public readonly items: ViewCollection<FileUploadManagerItemView>;
+
+	/**
+	 * Set to `true` when there are no uploads to list.
+	 *
+	 * @observable
+	 */
+	declare public isEmpty: boolean;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale ) {
+		super( locale );
+
+		const t = this.locale!.t;
+		const bind = this.bindTemplate;
+
+		this.items = this.createCollection();
+
+		this.set( 'isEmpty', true );
+
+		this.items.on( 'change', () => {
+			this.isEmpty = !this.items.length;
+		} );
+
+		this.setTemplate( {
+			tag: 'div',
+
+			attributes: {
+				class: [ 'ck', 'ck-file-upload-manager' ]
+			},
+
+			children: [
+				{
+					tag: 'ul',
+					attributes: {
+						class: [
+							'ck',
+							'ck-file-upload-manager__list',
+							bind.if( 'isEmpty', 'ck-hidden' )
+						]
+					},
+					children: this.items
+				},
+				{
+					tag: 'p',
+					attributes: {
+						class: [
+							'ck',
+							'ck-file-upload-manager__empty',
+							bind.if( 'isEmpty', 'ck-hidden', isEmpty => !isEmpty )
+						]
+					},
+					children: [ t( 'There are no uploads in progress.' ) ]
+				}
+			]
+		} );
+	}
+
+	/**
+	 * Focuses the first listed upload.
+	 */
+	public focus(): void {
+		if ( this.items.first ) {
+			this.items.first.focus();
+		}
+	}
+}
@@ -0,0 +1,298 @@
+/**
+ * @module file-uploader/fileuploadpersistence
+ */
+
+/* globals window, navigator */
+
+import { Plugin, type Editor } from 'ckeditor5/src/core';
+import type { DowncastInsertEvent, Element, UpcastElementEvent } from 'ckeditor5/src/engine';
+import { FileRepository } from 'ckeditor5/src/upload';
+import { DomEmitterMixin, type DomEmitter } from 'ckeditor5/src/utils';
+
+import FileUploadEditing from './fileuploadediting';
+import IndexedDBFileUploadStorage from './indexeddbfileuploadstorage';
+import { createFileAttachmentViewElement, getFileAttachmentViewLink } from './converters';
+import type { FileUploadStorage } from './fileuploaderconfig';
+import { isFileAttachment } from './utils';
+
+/**
+ * The file upload persistence plugin. It keeps the pending uploads across the page reloads, e.g. when the files were
+ * inserted without the network connection.
+ *
+ * The files of the pending uploads are stored in IndexedDB (or in a custom
+ * {@link module:file-uploader/fileuploaderconfig~FileUploadPersistenceConfig#storage storage}) by their upload ids,
+ * and the file attachments being uploaded are kept in the editor data with the `data-upload-id` attribute:
+ *
+ * ```html
+ * <a class="file-attachment" href="" data-upload-id="e3b0c4429">Report.pdf</a>
+ * ```
+ *
+ * When such data is loaded into the editor, the file attachment is bound to a new file loader with the stored file
+ * and the upload is resumed. A file attachment whose file is not stored anymore is removed from the content.
+ *
+ * An upload that fails without the network connection gets the `'pending-offline'` upload status
+ * and is resumed when the connection is back (see {@link #isOnline}).
+ *
+ * The plugin is not loaded by the {@link module:file-uploader/fileuploader~FileUploader} plugin, add it to the editor plugins
+ * to enable the persistence.
+ */
+export default class FileUploadPersistence extends Plugin {
+	/**
+	 * Whether the browser is online. The uploads waiting for the network connection are resumed when it changes to `true`.
+	 *
+	 * @observable
+	 */
+	declare public isOnline: boolean;
+
+	/**
+	 * The storage of the files.
+	 */
+	private readonly _storage: FileUploadStorage;
+
+	/**
+	 * The files of the uploads by the upload ids. The files are kept after the file attachment is removed from the content,
+	 * so they can be stored again when the removal is undone.
+	 */
+	private readonly _files: Map<string, File>;
+
+	/**
+	 * The emitter listening to the connection changes.
+	 */
+	private readonly _domEmitter: DomEmitter;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ FileUploadEditing ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'FileUploadPersistence' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		editor.config.define( 'fileUploader.persistence', {
+			databaseName: 'ckeditor5-file-uploads'
+		} );
+
+		const config = editor.config.get( 'fileUploader.persistence' )!;
+
+		this._storage = config.storage || new IndexedDBFileUploadStorage( config.databaseName! );
+		this._files = new Map();
+		this._domEmitter = new ( DomEmitterMixin() )();
+
+		this.set( 'isOnline', navigator.onLine );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const doc = editor.model.document;
+		const fileTypeClass = editor.config.get( 'fileUploader.fileTypeClass' );
+
+		this._domEmitter.listenTo( window, 'online', () => {
+			this.isOnline = true;
+		} );
+
+		this._domEmitter.listenTo( window, 'offline', () => {
+			this.isOnline = false;
+		} );
+
+		this.on( 'change:isOnline', () => {
+			if ( this.isOnline ) {
+				this._resumeUploads();
+			}
+		} );
+
+		// Keep the pending uploads in the data, so they can be restored with it. The placeholders are left out of
+		// the clipboard, the pasted placeholder would be bound to the same upload.
+		for ( const name of [ 'fileAttachment', 'fileAttachmentInline' ] ) {
+			editor.data.downcastDispatcher.on<DowncastInsertEvent<Element>>( `insert:${ name }`, ( evt, data, conversionApi ) => {
+				const { consumable, mapper, writer } = conversionApi;
+				const uploadId = data.item.getAttribute( 'uploadId' ) as string;
+
+				if ( !uploadId || !data.item.root.is( 'rootElement' ) || !this._files.has( uploadId ) ) {
+					return;
+				}
+
+				if ( !consumable.consume( data.item, 'insert' ) ) {
+					return;
+				}
+
+				for ( const key of data.item.getAttributeKeys() ) {
+					consumable.consume( data.item, `attribute:${ key }` );
+				}
+
+				const viewElement = createFileAttachmentViewElement( writer, data.item, { fileTypeClass } );
+				const viewLink = viewElement.is( 'element', 'a' ) ? viewElement : getFileAttachmentViewLink( viewElement )!;
+
+				writer.setAttribute( 'data-upload-id', uploadId, viewLink );
+				writer.insert( mapper.toViewPosition( data.range.start ), viewElement );
+				mapper.bindElements( data.item, viewElement );
+			}, { priority: 'highest' } );
+		}
+
+		// Read the upload id of a restored file attachment. The file attachment is bound to the upload
+		// once it appears in the model (see the `Document#change` listener below).
+		for ( const name of [ 'a', 'div' ] ) {
+			editor.data.upcastDispatcher.on<UpcastElementEvent>( `element:${ name }`, ( evt, data, { writer } ) => {
+				const viewLink = data.viewItem.is( 'element', 'div' ) ? getFileAttachmentViewLink( data.viewItem ) : data.viewItem;
+				const fileElement = data.modelRange && data.modelRange.start.nodeAfter;
+
+				if ( !viewLink || !viewLink.hasAttribute( 'data-upload-id' ) || !isFileAttachment( fileElement ) ) {
+					return;
+				}
+
+				writer.setAttribute( 'uploadId', viewLink.getAttribute( 'data-upload-id' ), fileElement );
+			}, { priority: 'low' } );
+		}
+
+		this.listenTo( doc, 'change', () => {
+			const offlineFileElements: Array<Element> = [];
+
+			for ( const entry of doc.differ.getChanges( { includeChangesInGraveyard: true } ) ) {
+				if ( entry.type == 'insert' && entry.position.nodeAfter ) {
+					const isInsertedInGraveyard = entry.position.root.rootName == '$graveyard';
+
+					for ( const { item } of editor.model.createRangeOn( entry.position.nodeAfter ) ) {
+						if ( !isFileAttachment( item ) || !item.hasAttribute( 'uploadId' ) ) {
+							continue;
+						}
+
+						if ( isInsertedInGraveyard ) {
+							this._delete( item.getAttribute( 'uploadId' ) as string );
+						} else {
+							this._store( item );
+						}
+					}
+				} else if ( entry.type == 'attribute' && entry.attributeKey == 'uploadId' ) {
+					// The upload id changes when the upload is retried, and it is removed when the upload is complete.
+					const oldUploadId = entry.attributeOldValue as string | null;
+					const newUploadId = entry.attributeNewValue as string | null;
+					const file = oldUploadId && this._files.get( oldUploadId );
+
+					if ( oldUploadId ) {
+						this._files.delete( oldUploadId );
+						this._delete( oldUploadId );
+					}
+
+					if ( newUploadId && file ) {
+						this._files.set( newUploadId, file );
+						this._storage.set( newUploadId, file ).catch( () => {} );
+					}
+				} else if ( entry.type == 'attribute' && entry.attributeKey == 'uploadStatus' ) {
+					const fileElement = entry.range.start.nodeAfter;
+
+					if ( entry.attributeNewValue == 'error' && !this.isOnline && isFileAttachment( fileElement ) ) {
+						offlineFileElements.push( fileElement );
+					}
+				}
+			}
+
+			if ( offlineFileElements.length ) {
+				editor.model.enqueueChange( { isUndoable: false }, writer => {
+					for ( const fileElement of offlineFileElements ) {
+						writer.setAttribute( 'uploadStatus', 'pending-offline', fileElement );
+					}
+				} );
+			}
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		this._domEmitter.stopListening();
+
+		if ( this._storage instanceof IndexedDBFileUploadStorage ) {
+			this._storage.close();
+		}
+
+		super.destroy();
+	}
+
+	/**
+	 * Stores the file of the file attachment inserted into the content. A file attachment with no upload in this editor
+	 * is a restored one, it is bound to a new upload with the stored file.
+	 */
+	private _store( fileElement: Element ): void {
+		const editor = this.editor;
+		const editing = editor.plugins.get( FileUploadEditing );
+		const uploadId = fileElement.getAttribute( 'uploadId' ) as string;
+		const loader = editor.plugins.get( FileRepository ).loaders.get( uploadId );
+		const isPending = () => fileElement.getAttribute( 'uploadId' ) == uploadId && fileElement.root.rootName != '$graveyard';
+
+		if ( this._files.has( uploadId ) ) {
+			this._storage.set( uploadId, this._files.get( uploadId )! ).catch( () => {} );
+		} else if ( loader ) {
+			loader.file
+				.then( file => {
+					if ( file && isPending() ) {
+						this._files.set( uploadId, file );
+						this._storage.set( uploadId, file ).catch( () => {} );
+					}
+				} )
+				// A file that could not be obtained is handled as a failed upload by the editing plugin.
+				.catch( () => {} );
+		} else if ( !editing.hasActiveUpload( uploadId ) ) {
+			this._storage.get( uploadId )
+				.catch( () => undefined )
+				.then( file => {
+					if ( !isPending() ) {
+						return;
+					}
+
+					if ( !file ) {
+						editor.model.enqueueChange( { isUndoable: false }, writer => {
+							writer.remove( fileElement );
+						} );
+
+						return;
+					}
+
+					this._files.set( uploadId, file );
+					editing.restoreUpload( fileElement, file );
+
+					editor.model.enqueueChange( { isUndoable: false }, writer => {
+						writer.setAttribute( 'uploadStatus', 'pending-offline', fileElement );
+					} );
+
+					if ( this.isOnline ) {
+						editing.retryUpload( uploadId );
+					}
+				} );
+		}
+	}
+
+	/**
+	 * Removes the file of the upload from the storage. The file is kept in the memory, see {@link #_files}.
+	 */
+	private _delete( uploadId: string ): void {
+		this._storage.delete( uploadId ).catch( () => {} );
+	}
+
+	/**
+	 * Retries the uploads waiting for the network connection.
+	 */
+	private _resumeUploads(): void {
+		const editing = this.editor.plugins.get( FileUploadEditing );
+
+		for ( const { uploadId, fileElement } of editing.getUploads() ) {
+			if ( fileElement.getAttribute( 'uploadStatus' ) == 'pending-offline' ) {
+				editing.retryUpload( uploadId );
+			}
+		}
+	}
+}
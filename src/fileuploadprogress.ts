@@ -0,0 +1,281 @@
+/**
+ * @module file-uploader/fileuploadprogress
+ */
+
+/* globals setTimeout */
+
+import { Plugin } from 'ckeditor5/src/core';
+import type {
+	DowncastAttributeEvent,
+	DowncastWriter,
+	EditingView,
+	Element,
+	ViewElement,
+	ViewUIElement
+} from 'ckeditor5/src/engine';
+import { FileRepository, type FileLoader } from 'ckeditor5/src/upload';
+import type { Emitter, GetCallback, ObservableChangeEvent } from 'ckeditor5/src/utils';
+
+import '../theme/fileuploadprogress.css';
+import '../theme/fileuploadicon.css';
+import '../theme/fileuploadloader.css';
+
+/**
+ * The file upload progress plugin.
+ *
+ * It shows a spinner on the file attachment widget while the file waits in the upload queue or for the connection, a progress bar
+ * while the file is uploading and a short confirmation (or an error marker) when the upload is finished.
+ * A file being uploaded has a button that cancels the upload, the error marker retries a failed upload.
+ */
+export default class FileUploadProgress extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'FileUploadProgress' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const downcastDispatcher = this.editor.editing.downcastDispatcher;
+
+		// The progress bar is updated until the upload is finished, i.e. its loader is destroyed.
+		this.listenTo( this.editor.plugins.get( FileRepository ).loaders, 'remove', ( evt, loader ) => {
+			this.stopListening( loader );
+		} );
+
+		// Upload status change - update the file attachment's view according to that status.
+		downcastDispatcher.on<DowncastAttributeEvent<Element>>( 'attribute:uploadStatus:fileAttachment', this._uploadStatusChange );
+		downcastDispatcher.on<DowncastAttributeEvent<Element>>( 'attribute:uploadStatus:fileAttachmentInline', this._uploadStatusChange );
+	}
+
+	/**
+	 * This method is called each time the file attachment `uploadStatus` attribute is changed.
+	 *
+	 * @param evt An object containing information about the fired event.
+	 * @param data Additional information about the change.
+	 */
+	private _uploadStatusChange: GetCallback<DowncastAttributeEvent<Element>> = ( evt, data, conversionApi ) => {
+		const editor = this.editor;
+		const modelElement = data.item;
+		const uploadId = modelElement.getAttribute( 'uploadId' ) as string;
+
+		if ( !conversionApi.consumable.consume( data.item, evt.name ) ) {
+			return;
+		}
+
+		const fileRepository = editor.plugins.get( FileRepository );
+		const status = uploadId ? data.attributeNewValue : null;
+		const viewElement = editor.editing.mapper.toViewElement( modelElement )!;
+		const viewWriter = conversionApi.writer;
+		const t = editor.t;
+
+		if ( status == 'queued' || status == 'uploading' || status == 'pending-offline' ) {
+			_showButton( viewElement, viewWriter, 'cancelButton', 'ck-file-upload-cancel-button', t( 'Cancel upload' ),
+				() => editor.execute( 'cancelFileUpload', { uploadId } ) );
+		} else {
+			_removeUIElement( viewElement, viewWriter, 'cancelButton' );
+		}
+
+		// A queued file waits for the other uploads to finish (see `config.fileUploader.maxConcurrentUploads`).
+		if ( status == 'queued' ) {
+			viewWriter.addClass( 'ck-file-upload-queued', viewElement );
+		} else {
+			viewWriter.removeClass( 'ck-file-upload-queued', viewElement );
+		}
+
+		// The file waits for the network connection (see the `FileUploadPersistence` plugin).
+		if ( status == 'pending-offline' ) {
+			viewWriter.addClass( 'ck-file-upload-pending-offline', viewElement );
+		} else {
+			viewWriter.removeClass( 'ck-file-upload-pending-offline', viewElement );
+		}
+
+		if ( status == 'queued' || status == 'pending-offline' ) {
+			_showPlaceholder( viewElement, viewWriter );
+
+			return;
+		}
+
+		if ( status == 'uploading' ) {
+			const loader = fileRepository.loaders.get( uploadId );
+
+			if ( !loader ) {
+				// There is no loader associated with the upload id - the file came from external changes.
+				// In such cases we still want to show the placeholder until the file is fully uploaded.
+				_showPlaceholder( viewElement, viewWriter );
+			} else {
+				_hidePlaceholder( viewElement, viewWriter );
+				_showProgressBar( viewElement, viewWriter, loader, editor.editing.view, this );
+			}
+
+			return;
+		}
+
+		// Clean up.
+		_hideProgressBar( viewElement, viewWriter );
+		_hidePlaceholder( viewElement, viewWriter );
+
+		if ( status == 'complete' && fileRepository.loaders.get( uploadId ) ) {
+			_showCompleteIcon( viewElement, viewWriter, editor.editing.view );
+		}
+
+		if ( status == 'error' ) {
+			viewWriter.addClass( 'ck-file-upload-error', viewElement );
+
+			// The error marker retries the upload.
+			_showButton( viewElement, viewWriter, 'errorMarker', 'ck-file-upload-error-icon', t( 'Upload failed. Click to retry.' ),
+				() => editor.execute( 'retryFileUpload', { uploadId } ) );
+		} else {
+			viewWriter.removeClass( 'ck-file-upload-error', viewElement );
+			_removeUIElement( viewElement, viewWriter, 'errorMarker' );
+		}
+	};
+}
+
+/**
+ * Shows the spinner on the given file attachment widget.
+ */
+function _showPlaceholder( viewElement: ViewElement, writer: DowncastWriter ): void {
+	if ( !viewElement.hasClass( 'ck-file-upload-placeholder' ) ) {
+		writer.addClass( 'ck-file-upload-placeholder', viewElement );
+	}
+
+	if ( !_getUIElement( viewElement, 'placeholder' ) ) {
+		const placeholder = _createUIElement( writer, 'placeholder', 'ck-upload-placeholder-loader' );
+
+		writer.insert( writer.createPositionAt( viewElement, 'end' ), placeholder );
+	}
+}
+
+/**
+ * Removes the spinner from the given file attachment widget.
+ */
+function _hidePlaceholder( viewElement: ViewElement, writer: DowncastWriter ): void {
+	if ( viewElement.hasClass( 'ck-file-upload-placeholder' ) ) {
+		writer.removeClass( 'ck-file-upload-placeholder', viewElement );
+	}
+
+	_removeUIElement( viewElement, writer, 'placeholder' );
+}
+
+/**
+ * Shows the progress bar displaying the upload progress.
+ * Attaches it to the file loader to update when the upload percentage is changed. The emitter listens to the loader
+ * and stops when the loader is destroyed.
+ */
+function _showProgressBar(
+	viewElement: ViewElement,
+	writer: DowncastWriter,
+	loader: FileLoader,
+	view: EditingView,
+	emitter: Emitter
+): void {
+	const progressBar = _createUIElement( writer, 'progressBar', 'ck-progress-bar' );
+
+	writer.setStyle( 'width', loader.uploadedPercent + '%', progressBar );
+	writer.insert( writer.createPositionAt( viewElement, 'end' ), progressBar );
+
+	// Update only the last progress bar of the upload, e.g. when the widget is rendered again.
+	emitter.stopListening( loader, 'change:uploadedPercent' );
+
+	// Update the progress bar width when `uploadedPercent` is changed.
+	emitter.listenTo<ObservableChangeEvent<number>>( loader, 'change:uploadedPercent', ( evt, name, value ) => {
+		view.change( writer => {
+			writer.setStyle( 'width', value + '%', progressBar );
+		} );
+	} );
+}
+
+/**
+ * Hides the upload progress bar.
+ */
+function _hideProgressBar( viewElement: ViewElement, writer: DowncastWriter ): void {
+	_removeUIElement( viewElement, writer, 'progressBar' );
+}
+
+/**
+ * Shows the complete icon and hides it after a certain amount of time.
+ */
+function _showCompleteIcon( viewElement: ViewElement, writer: DowncastWriter, view: EditingView ): void {
+	const completeIcon = _createUIElement( writer, 'completeIcon', 'ck-file-upload-complete-icon' );
+
+	writer.insert( writer.createPositionAt( viewElement, 'end' ), completeIcon );
+
+	setTimeout( () => {
+		// The widget could have been re-rendered or removed in the meantime.
+		if ( completeIcon.parent ) {
+			view.change( writer => writer.remove( writer.createRangeOn( completeIcon ) ) );
+		}
+	}, 3000 );
+}
+
+/**
+ * Shows a button on the file attachment widget, unless a button with the given unique property is already shown.
+ */
+function _showButton(
+	viewElement: ViewElement,
+	writer: DowncastWriter,
+	uniqueProperty: string,
+	className: string,
+	label: string,
+	onClick: () => void
+): void {
+	if ( _getUIElement( viewElement, uniqueProperty ) ) {
+		return;
+	}
+
+	const button = writer.createUIElement( 'button', {
+		class: className,
+		type: 'button',
+		title: label,
+		'aria-label': label,
+		// Let the button handle the clicks instead of the widget.
+		'data-cke-ignore-events': 'true'
+	}, function( domDocument ) {
+		const domElement = this.toDomElement( domDocument );
+
+		domElement.addEventListener( 'click', onClick );
+
+		return domElement;
+	} );
+
+	writer.setCustomProperty( uniqueProperty, true, button );
+	writer.insert( writer.createPositionAt( viewElement, 'end' ), button );
+}
+
+/**
+ * Creates a {@link module:engine/view/uielement~UIElement} marked with the given unique property.
+ */
+function _createUIElement( writer: DowncastWriter, uniqueProperty: string, className: string ): ViewUIElement {
+	const uiElement = writer.createUIElement( 'span', { class: className } );
+
+	writer.setCustomProperty( uniqueProperty, true, uiElement );
+
+	return uiElement;
+}
+
+/**
+ * Returns the {@link module:engine/view/uielement~UIElement} of the given unique property from the file attachment widget.
+ * Returns `undefined` if the element is not found.
+ */
+function _getUIElement( viewElement: ViewElement, uniqueProperty: string ): ViewElement | undefined {
+	for ( const child of viewElement.getChildren() ) {
+		if ( child.is( 'element' ) && child.getCustomProperty( uniqueProperty ) ) {
+			return child;
+		}
+	}
+}
+
+/**
+ * Removes the {@link module:engine/view/uielement~UIElement} of the given unique property from the file attachment widget.
+ */
+function _removeUIElement( viewElement: ViewElement, writer: DowncastWriter, uniqueProperty: string ): void {
+	const element = _getUIElement( viewElement, uniqueProperty );
+
+	if ( element ) {
+		writer.remove( writer.createRangeOn( element ) );
+	}
+}
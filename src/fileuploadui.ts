@@ -4,28 +4,51 @@
  */
 
 /**
- * @module image/imageupload/imageuploadui
+ * @module file-uploader/fileuploadui
  */
 
-import { type Locale } from 'ckeditor5/src/utils';
+import { Collection, Rect, type DecoratedMethodEvent, type Locale, type ObservableChangeEvent } from 'ckeditor5/src/utils';
 // eslint-disable-next-line
 import { add } from '@ckeditor/ckeditor5-utils/src/translation-service';
-import { Plugin } from 'ckeditor5/src/core';
-import { FileDialogButtonView } from 'ckeditor5/src/ui';
-import * as mime from 'mime';
-import { createFileTypeRegExp } from './utils';
+import { Plugin, type Command } from 'ckeditor5/src/core';
+import {
+	ButtonView,
+	Dialog,
+	SplitButtonView,
+	Template,
+	View,
+	ViewModel,
+	addListToDropdown,
+	createDropdown,
+	type ListDropdownItemDefinition
+} from 'ckeditor5/src/ui';
+import { getFileTypeAcceptValue } from './utils';
 import fileUploadIcon from '../theme/icons/file-arrow-up-solid.svg';
-import type UploadFileCommand from './uploadfilecommand';
+import type FileUploadEditing from './fileuploadediting';
+import FileUrlFormView from './fileurlformview';
+import FileDropOverlayView from './filedropoverlayview';
+import type { FileDropState } from './fileuploaddroptarget';
+
+import '../theme/fileuploadui.css';
 
 /**
- * The image upload button plugin.
+ * The file upload button plugin.
  *
- * For a detailed overview, check the {@glink features/images/image-upload/image-upload Image upload feature} documentation.
+ * Adds the `'uploadFile'` split button dropdown to the {@link module:ui/componentfactory~ComponentFactory UI component factory}
+ * and also the `fileUpload` dropdown as an alias. The button opens the native file dialog, the dropdown offers also
+ * inserting a file from a URL in a dialog (see the `insertFileFromUrl` command).
  *
- * Adds the `'uploadImage'` button to the {@link module:ui/componentfactory~ComponentFactory UI component factory}
- * and also the `imageUpload` button as an alias for backward compatibility.
+ * The plugin also covers the editor with an overlay while the files are dragged over it (see
+ * {@link module:file-uploader/fileuploaddroptarget~FileUploadDropTarget}).
  */
 export default class FileUploadUI extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ Dialog ] as const;
+	}
+
 	/**
 	 * @inheritDoc
 	 */
@@ -38,43 +61,372 @@ export default class FileUploadUI extends Plugin {
 	 */
 	public init(): void {
 		// Add translations
-		add( 'de', { 'Insert file': 'Datei einfügen' } );
+		add( 'de', {
+			'Insert file': 'Datei einfügen',
+			'File attachment: %0': 'Dateianhang: %0',
+			'Upload rejected': 'Upload abgelehnt',
+			'The file "%0" was not inserted. You can insert up to %1 files at once.':
+				'Die Datei "%0" wurde nicht eingefügt. Sie können bis zu %1 Dateien auf einmal einfügen.',
+			'The file "%0" is larger than the allowed %1.': 'Die Datei "%0" ist größer als die erlaubten %1.',
+			'The file "%0" was not inserted. All files can be up to %1 in total.':
+				'Die Datei "%0" wurde nicht eingefügt. Alle Dateien dürfen zusammen höchstens %1 groß sein.',
+			'Upload failed. Click to retry.': 'Upload fehlgeschlagen. Klicken Sie, um es erneut zu versuchen.',
+			'Cancel upload': 'Upload abbrechen',
+			'Upload failed': 'Upload fehlgeschlagen',
+			'The file "%0" is not of an allowed type.': 'Der Dateityp der Datei "%0" ist nicht erlaubt.',
+			'Uploading "%0" (%1%).': '"%0" wird hochgeladen (%1%).',
+			'Rename file': 'Datei umbenennen',
+			'Replace file': 'Datei ersetzen',
+			'Download file': 'Datei herunterladen',
+			'Remove file': 'Datei entfernen',
+			'File label': 'Dateibezeichnung',
+			'File attachment toolbar': 'Dateianhang-Werkzeugleiste',
+			'Upload manager': 'Upload-Verwaltung',
+			'Uploads (%0)': 'Uploads (%0)',
+			'There are no uploads in progress.': 'Es werden keine Dateien hochgeladen.',
+			'Retry upload': 'Upload wiederholen',
+			'Show in content': 'Im Inhalt anzeigen',
+			'Queued': 'In der Warteschlange',
+			'Uploading': 'Wird hochgeladen',
+			'Uploaded': 'Hochgeladen',
+			'Attachments': 'Anhänge',
+			'There are no attachments.': 'Es gibt keine Anhänge.',
+			'Insert images': 'Bilder einfügen',
+			'Insert "%0" as an image or as a file attachment?': '"%0" als Bild oder als Dateianhang einfügen?',
+			'Insert %0 images as images or as file attachments?': '%0 Bilder als Bilder oder als Dateianhänge einfügen?',
+			'Insert as attachment': 'Als Anhang einfügen',
+			'Insert as image': 'Als Bild einfügen',
+			'Waiting for the connection': 'Warten auf die Verbindung',
+			'Upload from computer': 'Vom Computer hochladen',
+			'Insert from URL': 'Von URL einfügen',
+			'Insert file from URL': 'Datei von URL einfügen',
+			'File URL': 'Datei-URL',
+			'Paste the URL of the file.': 'Fügen Sie die URL der Datei ein.',
+			'The URL must not be empty.': 'Die URL darf nicht leer sein.',
+			'The URL does not link a file of an allowed type.': 'Die URL verweist nicht auf eine Datei eines erlaubten Typs.',
+			'Insert': 'Einfügen',
+			'Drop files here': 'Dateien hier ablegen',
+			'Files of this type cannot be inserted': 'Dateien dieses Typs können nicht eingefügt werden',
+			'Files cannot be inserted here': 'Dateien können hier nicht eingefügt werden'
+		} );
 		const editor = this.editor;
 		const t = editor.t;
 		const componentCreator = ( locale: Locale ) => {
-			const view = new FileDialogButtonView( locale );
-			const command: UploadFileCommand = editor.commands.get( 'uploadFile' )! as UploadFileCommand;
-			const fileTypes = editor.config.get( 'fileUploader.fileTypes' )! as Array<string>;
-			const fileTypesRegExp = createFileTypeRegExp( fileTypes );
+			// The action button is enabled with the upload command only, the dropdown is enabled also with the URL command.
+			const actionView = new ButtonView( locale );
+			const splitButtonView = new SplitButtonView( locale, actionView );
+			const dropdownView = createDropdown( locale, splitButtonView );
+			const fileInputView = new FileInputView( locale );
+			const uploadFileCommand = editor.commands.get( 'uploadFile' )!;
+			const insertFileFromUrlCommand = editor.commands.get( 'insertFileFromUrl' )!;
+			const items = new Collection<ListDropdownItemDefinition>();
 
-			view.set( {
-				acceptedType: fileTypes.map( type => mime.getType( type ) ).join( ',' ),
+			fileInputView.set( {
+				acceptedType: getFileTypeAcceptValue( editor.config.get( 'fileUploader.fileTypes' )! ),
 				allowMultipleFiles: true
 			} );
 
-			view.buttonView.set( {
+			actionView.set( {
 				label: t( 'Insert file' ),
 				icon: fileUploadIcon,
 				tooltip: true
 			} );
 
-			view.buttonView.bind( 'isEnabled' ).to( command );
+			actionView.bind( 'isEnabled' ).to( uploadFileCommand );
+			splitButtonView.bind( 'label', 'tooltip' ).to( actionView );
+			dropdownView.bind( 'isEnabled' ).toMany( [ uploadFileCommand, insertFileFromUrlCommand ], 'isEnabled',
+				( isUploadEnabled, isUrlEnabled ) => isUploadEnabled || isUrlEnabled
+			);
+
+			dropdownView.extendTemplate( {
+				attributes: {
+					class: 'ck-file-upload-dropdown'
+				}
+			} );
+
+			// The hidden file input and the total progress of all uploads are shown on the action button.
+			actionView.children.add( fileInputView );
+			actionView.children.add( this._createProgressView( locale ) );
+
+			items.add( this._createListItem( t( 'Upload from computer' ), 'upload', uploadFileCommand ) );
+			items.add( this._createListItem( t( 'Insert from URL' ), 'url', insertFileFromUrlCommand ) );
+
+			addListToDropdown( dropdownView, items, { ariaLabel: t( 'Insert file' ) } );
 
-			view.on( 'done', ( evt, files: FileList ) => {
-				const filesToUpload = Array.from( files ).filter( file => fileTypesRegExp.test( file.type ) );
+			splitButtonView.on( 'execute', () => fileInputView.open() );
 
-				if ( filesToUpload.length ) {
-					editor.execute( 'uploadFile', { file: filesToUpload } );
+			// Only the list items are handled, the `execute` event of the dropdown itself has no action.
+			dropdownView.on( 'execute', evt => {
+				const action = ( evt.source as ViewModel ).action;
 
+				if ( action == 'upload' ) {
+					fileInputView.open();
+				} else if ( action == 'url' ) {
+					this._showUrlDialog();
+				}
+			} );
+
+			fileInputView.on<FileInputDoneEvent>( 'done', ( evt, files ) => {
+				if ( editor.plugins.get( 'FileUploadEditing' ).insertFiles( Array.from( files ) ) ) {
 					editor.editing.view.focus();
 				}
 			} );
 
-			return view;
+			return dropdownView;
 		};
 
 		// Setup `uploadImage` button and add `imageUpload` button as an alias for backward compatibility.
 		editor.ui.componentFactory.add( 'uploadFile', componentCreator );
 		editor.ui.componentFactory.add( 'fileUpload', componentCreator );
+
+		// Ask whether to insert the images as images or as file attachments (see `config.fileUploader.imageHandling`).
+		this.listenTo<DecoratedMethodEvent<FileUploadEditing, 'chooseImageHandling'>>(
+			editor.plugins.get( 'FileUploadEditing' ),
+			'chooseImageHandling',
+			( evt, [ files ] ) => {
+				evt.return = this._askImageHandling( files );
+				evt.stop();
+			},
+			{ priority: 'high' }
+		);
+
+		this._setupDropOverlay();
+	}
+
+	/**
+	 * Shows the overlay over the whole editor while the files are dragged over the editing view. The overlay covers the editable
+	 * if the editor has no main element (e.g. the inline editor).
+	 */
+	private _setupDropOverlay(): void {
+		const editor = this.editor;
+		const dropTarget = editor.plugins.get( 'FileUploadDropTarget' );
+		const overlayView = new FileDropOverlayView( editor.locale );
+
+		editor.ui.view.body.add( overlayView );
+
+		this.listenTo<ObservableChangeEvent<FileDropState | null>>( dropTarget, 'change:state', ( evt, name, state ) => {
+			const element = editor.ui.view.element || editor.ui.getEditableElement();
+
+			if ( state && element ) {
+				overlayView.setRect( new Rect( element ) );
+			}
+
+			overlayView.state = state;
+		} );
+	}
+
+	/**
+	 * Creates an item of the dropdown list, enabled with the command executed by the item.
+	 */
+	private _createListItem( label: string, action: string, command: Command ): ListDropdownItemDefinition {
+		const model = new ViewModel( { label, action, withText: true } );
+
+		model.bind( 'isEnabled' ).to( command );
+
+		return { type: 'button', model };
+	}
+
+	/**
+	 * Shows a dialog with the form inserting a file from a URL (see the `insertFileFromUrl` command).
+	 */
+	private _showUrlDialog(): void {
+		const editor = this.editor;
+		const t = editor.t;
+		const dialog = editor.plugins.get( Dialog );
+		const command = editor.commands.get( 'insertFileFromUrl' )!;
+		const formView = new FileUrlFormView( editor.locale );
+
+		const insert = () => {
+			const url = formView.url;
+
+			if ( !url ) {
+				formView.labeledInput.errorText = t( 'The URL must not be empty.' );
+			} else if ( !command.isAllowedUrl( url ) ) {
+				formView.labeledInput.errorText = t( 'The URL does not link a file of an allowed type.' );
+			} else {
+				command.execute( { url } );
+				dialog.hide();
+			}
+		};
+
+		formView.on( 'submit', insert );
+
+		// Hide the error when the URL is changed.
+		formView.labeledInput.fieldView.on( 'input', () => {
+			formView.labeledInput.errorText = null;
+		} );
+
+		dialog.show( {
+			id: 'insertFileFromUrl',
+			title: t( 'Insert file from URL' ),
+			content: formView,
+			isModal: true,
+			actionButtons: [
+				{
+					label: t( 'Cancel' ),
+					withText: true,
+					onExecute: () => dialog.hide()
+				},
+				{
+					label: t( 'Insert' ),
+					class: 'ck-button-action',
+					withText: true,
+					onExecute: insert
+				}
+			],
+			onShow: () => formView.focus(),
+			onHide: () => editor.editing.view.focus()
+		} );
+	}
+
+	/**
+	 * Shows a dialog asking whether to insert the images as images or as file attachments. The returned promise is resolved
+	 * with the choice, or with `null` when the dialog is closed.
+	 */
+	private _askImageHandling( files: Array<File> ): Promise<'image' | 'link' | null> {
+		const editor = this.editor;
+		const t = editor.t;
+		const dialog = editor.plugins.get( Dialog );
+		const contentView = new View( editor.locale );
+		let choice: 'image' | 'link' | null = null;
+
+		contentView.setTemplate( {
+			tag: 'p',
+			attributes: {
+				class: [ 'ck', 'ck-file-image-handling' ]
+			},
+			children: [
+				files.length == 1 ?
+					t( 'Insert "%0" as an image or as a file attachment?', [ files[ 0 ].name ] ) :
+					t( 'Insert %0 images as images or as file attachments?', [ files.length ] )
+			]
+		} );
+
+		const choose = ( value: 'image' | 'link' ) => {
+			choice = value;
+			dialog.hide();
+		};
+
+		return new Promise( resolve => {
+			dialog.show( {
+				id: 'fileImageHandling',
+				title: t( 'Insert images' ),
+				content: contentView,
+				isModal: true,
+				actionButtons: [
+					{
+						label: t( 'Insert as attachment' ),
+						withText: true,
+						onExecute: () => choose( 'link' )
+					},
+					{
+						label: t( 'Insert as image' ),
+						class: 'ck-button-action',
+						withText: true,
+						onExecute: () => choose( 'image' )
+					}
+				],
+				onHide: () => {
+					editor.editing.view.focus();
+					resolve( choice );
+				}
+			} );
+		} );
+	}
+
+	/**
+	 * Creates a progress bar displaying the total progress of the file attachment uploads in the editor.
+	 */
+	private _createProgressView( locale: Locale ): View {
+		const view = new View( locale );
+		const bindToEditing = Template.bind( this.editor.plugins.get( 'FileUploadEditing' ), view );
+
+		view.setTemplate( {
+			tag: 'span',
+			attributes: {
+				class: [
+					'ck',
+					'ck-file-upload-button__progress',
+					bindToEditing.if( 'isUploading', 'ck-hidden', isUploading => !isUploading )
+				],
+				style: {
+					width: bindToEditing.to( 'uploadedPercent', percent => `${ percent }%` )
+				}
+			}
+		} );
+
+		return view;
+	}
+}
+
+/**
+ * The hidden file input opening the native file dialog, like the one in the `FileDialogButtonView`.
+ */
+class FileInputView extends View<HTMLInputElement> {
+	/**
+	 * The accepted file types, the value of the `accept` attribute.
+	 *
+	 * @observable
+	 */
+	declare public acceptedType: string | undefined;
+
+	/**
+	 * Whether multiple files can be picked.
+	 *
+	 * @observable
+	 */
+	declare public allowMultipleFiles: boolean;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale ) {
+		super( locale );
+
+		this.set( 'acceptedType', undefined );
+		this.set( 'allowMultipleFiles', false );
+
+		const bind = this.bindTemplate;
+
+		this.setTemplate( {
+			tag: 'input',
+
+			attributes: {
+				class: [
+					'ck-hidden'
+				],
+				type: 'file',
+				tabindex: '-1',
+				accept: bind.to( 'acceptedType' ),
+				multiple: bind.to( 'allowMultipleFiles' )
+			},
+
+			on: {
+				change: bind.to( () => {
+					if ( this.element && this.element.files && this.element.files.length ) {
+						this.fire<FileInputDoneEvent>( 'done', this.element.files );
+					}
+
+					this.element!.value = '';
+				} )
+			}
+		} );
+	}
+
+	/**
+	 * Opens the file dialog. Nothing happens before the view is rendered.
+	 */
+	public open(): void {
+		if ( this.element ) {
+			this.element.click();
+		}
 	}
 }
+
+/**
+ * Fired when the files are picked in the file dialog.
+ */
+type FileInputDoneEvent = {
+	name: 'done';
+	args: [ files: FileList ];
+};
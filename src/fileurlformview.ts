@@ -0,0 +1,75 @@
+/**
+ * @module file-uploader/fileurlformview
+ */
+
+import {
+	LabeledFieldView,
+	View,
+	createLabeledInputText,
+	submitHandler,
+	type InputTextView
+} from 'ckeditor5/src/ui';
+import type { Locale } from 'ckeditor5/src/utils';
+
+/**
+ * The form view used to insert a file from a URL. It is shown in a dialog with the action buttons.
+ */
+export default class FileUrlFormView extends View {
+	/**
+	 * An input with a label.
+	 */
+	public labeledInput: LabeledFieldView<InputTextView>;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale ) {
+		super( locale );
+
+		const t = this.locale!.t;
+
+		this.labeledInput = new LabeledFieldView( this.locale, createLabeledInputText );
+		this.labeledInput.label = t( 'File URL' );
+		this.labeledInput.infoText = t( 'Paste the URL of the file.' );
+
+		this.setTemplate( {
+			tag: 'form',
+
+			attributes: {
+				class: [
+					'ck',
+					'ck-file-url-form'
+				],
+
+				tabindex: '-1'
+			},
+
+			children: [
+				this.labeledInput
+			]
+		} );
+	}
+
+	/**
+	 * The URL in the input.
+	 */
+	public get url(): string {
+		return this.labeledInput.fieldView.element!.value.trim();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		submitHandler( { view: this } );
+	}
+
+	/**
+	 * Focuses the input.
+	 */
+	public focus(): void {
+		this.labeledInput.focus();
+	}
+}
@@ -1,8 +1,50 @@
 import fileUpload from './../theme/icons/file-arrow-up-solid.svg';
+import fileDownload from './../theme/icons/download-solid.svg';
+import fileRemove from './../theme/icons/trash-can-solid.svg';
+import { FILE_TYPE_ICONS } from './converters';
 import './augmentation';
 
 export { default as FileUploader } from './fileuploader';
+export { default as FileUploadAdapter } from './fileuploadadapter';
+export { default as FileAttachmentRepository } from './fileattachmentrepository';
+export { default as FileUploadPersistence } from './fileuploadpersistence';
+export { default as IndexedDBFileUploadStorage } from './indexeddbfileuploadstorage';
+export {
+	computeFileHash,
+	createRemoteFile,
+	formatFileSize,
+	getFileMetadata,
+	getFileTypeCategory,
+	isRemoteFile,
+	sanitizeFileName
+} from './utils';
+export type { FileTypeCategory } from './utils';
+
+export type {
+	FileUploaderConfig,
+	FileUploadAdapterConfig,
+	FileUploadChunkedConfig,
+	FileUploadPersistenceConfig,
+	FileUploadStorage,
+	FileLabelData,
+	FileValidationResult
+} from './fileuploaderconfig';
+export type { FileUploadEntry } from './fileuploadediting';
+export type {
+	FileAttachmentData,
+	FileAttachmentInfo,
+	FileAttachmentAddedEvent,
+	FileAttachmentRemovedEvent
+} from './fileattachmentrepository';
+export type {
+	FileUploadRejectedEvent,
+	FileUploadRejectedData,
+	FileUploadRejectionReason
+} from './uploadfilecommand';
 
 export const icons = {
-	fileUpload
+	fileUpload,
+	fileDownload,
+	fileRemove,
+	fileTypes: FILE_TYPE_ICONS
 };
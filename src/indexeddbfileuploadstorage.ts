@@ -0,0 +1,110 @@
+/**
+ * @module file-uploader/indexeddbfileuploadstorage
+ */
+
+/* globals window */
+
+import type { FileUploadStorage } from './fileuploaderconfig';
+
+/**
+ * The name of the object store holding the files.
+ */
+const STORE_NAME = 'files';
+
+/**
+ * The default {@link module:file-uploader/fileuploaderconfig~FileUploadStorage storage} of the pending uploads.
+ * The files are stored in an IndexedDB database, by the upload ids.
+ *
+ * ```ts
+ * const storage = new IndexedDBFileUploadStorage( 'my-app-uploads' );
+ *
+ * await storage.set( uploadId, file );
+ * ```
+ */
+export default class IndexedDBFileUploadStorage implements FileUploadStorage {
+	/**
+	 * The name of the database.
+	 */
+	public readonly databaseName: string;
+
+	/**
+	 * The IndexedDB implementation.
+	 */
+	private readonly _indexedDB: IDBFactory;
+
+	/**
+	 * The opened database, created with the first request.
+	 */
+	private _database: Promise<IDBDatabase> | null;
+
+	/**
+	 * @param databaseName The name of the database.
+	 * @param indexedDB The IndexedDB implementation, e.g. an in-memory one in the tests. Defaults to `window.indexedDB`.
+	 */
+	constructor( databaseName: string, indexedDB: IDBFactory = window.indexedDB ) {
+		this.databaseName = databaseName;
+		this._indexedDB = indexedDB;
+		this._database = null;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public get( uploadId: string ): Promise<File | undefined> {
+		return this._request( 'readonly', store => store.get( uploadId ) );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public set( uploadId: string, file: File ): Promise<void> {
+		return this._request( 'readwrite', store => store.put( file, uploadId ) ).then( () => {} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public delete( uploadId: string ): Promise<void> {
+		return this._request( 'readwrite', store => store.delete( uploadId ) );
+	}
+
+	/**
+	 * Closes the database. It is opened again with the next request.
+	 */
+	public close(): void {
+		if ( this._database ) {
+			this._database.then( database => database.close(), () => {} );
+			this._database = null;
+		}
+	}
+
+	/**
+	 * Runs a request on the object store in a new transaction. The transactions are started in the order of the calls,
+	 * so e.g. a file removed right after it was stored is not stored again.
+	 */
+	private _request<T>( mode: IDBTransactionMode, createRequest: ( store: IDBObjectStore ) => IDBRequest<T> ): Promise<T> {
+		return this._open().then( database => new Promise( ( resolve, reject ) => {
+			const request = createRequest( database.transaction( STORE_NAME, mode ).objectStore( STORE_NAME ) );
+
+			request.onsuccess = () => resolve( request.result );
+			request.onerror = () => reject( request.error );
+		} ) );
+	}
+
+	/**
+	 * Opens the database and creates the object store with the first run.
+	 */
+	private _open(): Promise<IDBDatabase> {
+		if ( !this._database ) {
+			this._database = new Promise( ( resolve, reject ) => {
+				const request = this._indexedDB.open( this.databaseName, 1 );
+
+				request.onupgradeneeded = () => request.result.createObjectStore( STORE_NAME );
+				request.onsuccess = () => resolve( request.result );
+				request.onerror = () => reject( request.error );
+			} );
+		}
+
+		return this._database;
+	}
+}
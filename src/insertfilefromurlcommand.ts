@@ -0,0 +1,124 @@
+/**
+ * @module file-uploader/insertfilefromurlcommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+
+import {
+	canInsertFileAttachment,
+	createFileTypeMatcher,
+	createRemoteFile,
+	determineFileAttachmentType,
+	getFileType,
+	getUrlFileName
+} from './utils';
+
+/**
+ * The insert file from URL command.
+ *
+ * The command is registered by the {@link module:file-uploader/fileuploadediting~FileUploadEditing} plugin as `insertFileFromUrl`.
+ *
+ * It inserts a file linked by an absolute HTTP(S) URL at the current selection:
+ *
+ * ```ts
+ * editor.execute( 'insertFileFromUrl', { url: 'https://example.com/files/report.pdf' } );
+ * ```
+ *
+ * Depending on {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#urlHandling `config.fileUploader.urlHandling`},
+ * the file is inserted as a file attachment linking the URL, or the remote file is fetched and stored by the server.
+ * The latter is an upload of a file created with {@link module:file-uploader/utils~createRemoteFile} with the `uploadFile` command.
+ * It requires the {@link module:file-uploader/fileuploadadapter~FileUploadAdapter} with the
+ * {@link module:file-uploader/fileuploaderconfig~FileUploadAdapterConfig#fetchUrl} option, the URL is linked otherwise.
+ *
+ * Only the URLs of the allowed file types are inserted, see {@link #isAllowedUrl}.
+ */
+export default class InsertFileFromUrlCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		const editor = this.editor;
+
+		this.isEnabled = canInsertFileAttachment(
+			editor.model, editor.model.document.selection, editor.config.get( 'fileUploader.disallowedParents' )!
+		);
+	}
+
+	/**
+	 * Checks whether the URL can be inserted: it is an absolute HTTP(S) URL of a file whose name has an allowed file type
+	 * (see {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#fileTypes}).
+	 *
+	 * @param url The URL of the file.
+	 */
+	public isAllowedUrl( url: string ): boolean {
+		const name = getUrlFileName( url );
+		const isAllowedFile = createFileTypeMatcher( this.editor.config.get( 'fileUploader.fileTypes' )! );
+
+		return !!name && isAllowedFile( { name, type: '' } );
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @fires execute
+	 * @param options Options for the executed command.
+	 * @param options.url The URL of the file.
+	 * @param options.fileName A custom label of the file attachment. The label is created from the file name by default
+	 * (see {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#formatLabel}).
+	 */
+	public override execute( options: { url: string; fileName?: string } ): void {
+		const editor = this.editor;
+		const model = editor.model;
+		const { url, fileName } = options;
+
+		if ( !this.isAllowedUrl( url ) ) {
+			return;
+		}
+
+		const name = getUrlFileName( url );
+
+		if ( this._isFetchingEnabled() ) {
+			editor.execute( 'uploadFile', { file: createRemoteFile( url, name ), attributes: fileName ? { fileName } : {} } );
+
+			return;
+		}
+
+		const selection = model.document.selection;
+		const fileAttachmentType = determineFileAttachmentType( model.schema, selection );
+		const fileType = getFileType( { name, type: '' } );
+		const attributes: Record<string, unknown> = {
+			...Object.fromEntries( selection.getAttributes() ),
+			linkHref: url,
+			fileName: fileName || editor.config.get( 'fileUploader.formatLabel' )!( { name, size: 0, type: fileType } ),
+			...( fileType ? { fileType } : {} )
+		};
+
+		for ( const attributeName in attributes ) {
+			if ( !model.schema.checkAttribute( fileAttachmentType, attributeName ) ) {
+				delete attributes[ attributeName ];
+			}
+		}
+
+		model.change( writer => {
+			model.insertObject( writer.createElement( fileAttachmentType, attributes ), null, null, {
+				setSelection: 'on',
+				// Do not split text blocks when a block attachment is inserted at the selection.
+				findOptimalPosition: fileAttachmentType != 'fileAttachmentInline' ? 'auto' : undefined
+			} );
+		} );
+	}
+
+	/**
+	 * Checks whether the remote files are fetched by the server: the `'fetch'` URL handling is configured and the
+	 * {@link module:file-uploader/fileuploadadapter~FileUploadAdapter} with the
+	 * {@link module:file-uploader/fileuploaderconfig~FileUploadAdapterConfig#fetchUrl} is loaded. Other upload adapters
+	 * would upload the file created with {@link module:file-uploader/utils~createRemoteFile} as is, so the URL is linked then.
+	 */
+	private _isFetchingEnabled(): boolean {
+		const editor = this.editor;
+
+		return editor.config.get( 'fileUploader.urlHandling' ) == 'fetch' &&
+			editor.plugins.has( 'FileUploadAdapter' ) &&
+			!!editor.config.get( 'fileUploader.adapter.fetchUrl' );
+	}
+}
@@ -0,0 +1,44 @@
+/**
+ * @module file-uploader/removefileattachmentcommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+
+import { getSelectedFileAttachment } from './utils';
+
+/**
+ * The remove file attachment command.
+ *
+ * The command is registered by the {@link module:file-uploader/fileuploadediting~FileUploadEditing} plugin
+ * as `removeFileAttachment`. It removes the selected file attachment from the content:
+ *
+ * ```ts
+ * editor.execute( 'removeFileAttachment' );
+ * ```
+ */
+export default class RemoveFileAttachmentCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		this.isEnabled = !!getSelectedFileAttachment( this.editor.model.document.selection );
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @fires execute
+	 */
+	public override execute(): void {
+		const model = this.editor.model;
+		const fileElement = getSelectedFileAttachment( model.document.selection );
+
+		if ( !fileElement ) {
+			return;
+		}
+
+		model.change( writer => {
+			writer.remove( fileElement );
+		} );
+	}
+}
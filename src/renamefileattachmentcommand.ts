@@ -0,0 +1,60 @@
+/**
+ * @module file-uploader/renamefileattachmentcommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+
+import { getSelectedFileAttachment } from './utils';
+
+/**
+ * The rename file attachment command.
+ *
+ * The command is registered by the {@link module:file-uploader/fileuploadediting~FileUploadEditing} plugin
+ * as `renameFileAttachment`. It changes the visible label (the `fileName` attribute) of the selected file attachment
+ * and marks it as renamed (the `fileRenamed` attribute), so the label is kept when the file is replaced:
+ *
+ * ```ts
+ * editor.execute( 'renameFileAttachment', { newName: 'Annual report 2024.pdf' } );
+ * ```
+ */
+export default class RenameFileAttachmentCommand extends Command {
+	/**
+	 * The label of the selected file attachment.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public value: string | undefined;
+
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		const fileElement = getSelectedFileAttachment( this.editor.model.document.selection );
+
+		this.isEnabled = !!fileElement;
+		this.value = fileElement ? fileElement.getAttribute( 'fileName' ) as string : undefined;
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @fires execute
+	 * @param options Options for the executed command.
+	 * @param options.newName The new label of the file attachment. An empty label is ignored.
+	 */
+	public override execute( options: { newName: string } ): void {
+		const model = this.editor.model;
+		const fileElement = getSelectedFileAttachment( model.document.selection );
+		const newName = options.newName.trim();
+
+		if ( !fileElement || !newName ) {
+			return;
+		}
+
+		model.change( writer => {
+			writer.setAttribute( 'fileName', newName, fileElement );
+			writer.setAttribute( 'fileRenamed', true, fileElement );
+		} );
+	}
+}
@@ -0,0 +1,61 @@
+/**
+ * @module file-uploader/replacefileattachmentcommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+
+import { getSelectedFileAttachment } from './utils';
+
+/**
+ * The replace file attachment command.
+ *
+ * The command is registered by the {@link module:file-uploader/fileuploadediting~FileUploadEditing} plugin
+ * as `replaceFileAttachment`. It uploads a new file in place of the selected file attachment. The new file
+ * is uploaded with the `'uploadFile'` command, and keeps the position of the replaced file. The label changed with
+ * the `'renameFileAttachment'` command is kept too, otherwise the label is formatted from the new file:
+ *
+ * ```ts
+ * editor.execute( 'replaceFileAttachment', { file } );
+ * ```
+ */
+export default class ReplaceFileAttachmentCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		const editor = this.editor;
+		const uploadFileCommand = editor.commands.get( 'uploadFile' )!;
+
+		this.isEnabled = uploadFileCommand.isEnabled && !!getSelectedFileAttachment( editor.model.document.selection );
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @fires execute
+	 * @param options Options for the executed command.
+	 * @param options.file The new file.
+	 */
+	public override execute( options: { file: File } ): void {
+		const editor = this.editor;
+		const model = editor.model;
+		const fileElement = getSelectedFileAttachment( model.document.selection );
+
+		if ( !fileElement ) {
+			return;
+		}
+
+		const fileName = fileElement.getAttribute( 'fileName' );
+		const isRenamed = !!fileElement.getAttribute( 'fileRenamed' );
+
+		model.change( writer => {
+			// The new file attachment is inserted at the selection on the replaced one, so it takes its place.
+			writer.setSelection( fileElement, 'on' );
+
+			editor.execute( 'uploadFile', {
+				file: options.file,
+				attributes: fileName && isRenamed ? { fileName, fileRenamed: true } : {}
+			} );
+		} );
+	}
+}
@@ -0,0 +1,53 @@
+/**
+ * @module file-uploader/retryfileuploadcommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+
+import { isFileAttachment } from './utils';
+
+/**
+ * The retry file upload command.
+ *
+ * The command is registered by the {@link module:file-uploader/fileuploadediting~FileUploadEditing} plugin as `retryFileUpload`.
+ * It uploads again a file whose upload has failed. The file attachment stays in the content in the `'error'` upload status
+ * after a failed upload, so the file is uploaded in the same place:
+ *
+ * ```ts
+ * // Retry the failed upload of the selected file attachment.
+ * editor.execute( 'retryFileUpload' );
+ *
+ * // Retry a failed upload by its id.
+ * editor.execute( 'retryFileUpload', { uploadId } );
+ * ```
+ *
+ * The command is enabled when there is at least one failed upload in the content.
+ */
+export default class RetryFileUploadCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		this.isEnabled = this.editor.plugins.get( 'FileUploadEditing' ).hasFailedUpload();
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @fires execute
+	 * @param options Options for the executed command.
+	 * @param options.uploadId The id of the failed upload. Defaults to the upload of the selected file attachment.
+	 */
+	public override execute( options: { uploadId?: string } = {} ): void {
+		const selectedElement = this.editor.model.document.selection.getSelectedElement();
+		let uploadId = options.uploadId;
+
+		if ( !uploadId && isFileAttachment( selectedElement ) ) {
+			uploadId = selectedElement.getAttribute( 'uploadId' ) as string | undefined;
+		}
+
+		if ( uploadId ) {
+			this.editor.plugins.get( 'FileUploadEditing' ).retryUpload( uploadId );
+		}
+	}
+}
@@ -3,54 +3,110 @@
  * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
  */
 
-import type { Writer } from 'ckeditor5/src/engine';
-import { findOptimalInsertionRange } from 'ckeditor5/src/widget';
+import type { DocumentSelection, Element, Position, Selection, Writer } from 'ckeditor5/src/engine';
 import { FileRepository } from 'ckeditor5/src/upload';
-import { Command } from 'ckeditor5/src/core';
+import { Command, type Editor } from 'ckeditor5/src/core';
+import { Notification } from 'ckeditor5/src/ui';
 import { toArray, type ArrayOrItem } from 'ckeditor5/src/utils';
 
+import type { FileValidationResult } from './fileuploaderconfig';
+import {
+	canInsertFileAttachment,
+	determineFileAttachmentType,
+	formatFileSize,
+	getFileType,
+	isFileAttachment,
+	isRemoteFile,
+	sanitizeFile,
+	setFileMetadata
+} from './utils';
+
 /**
- * @module image/imageupload/uploadimagecommand
+ * @module file-uploader/uploadfilecommand
  */
 
 /**
- * The upload image command.
+ * The upload file command.
  *
- * The command is registered by the {@link module:image/imageupload/imageuploadediting~ImageUploadEditing} plugin as `uploadImage`
- * and it is also available via aliased `imageUpload` name.
+ * The command is registered by the {@link module:file-uploader/fileuploadediting~FileUploadEditing} plugin as `uploadFile`.
  *
- * In order to upload an image at the current selection position
- * (according to the {@link module:widget/utils~findOptimalInsertionRange} algorithm),
- * execute the command and pass the native image file instance:
+ * In order to upload a file at the current selection position, execute the command and pass the native file instance.
+ * The file is inserted as a file attachment element and uploaded using the {@link module:upload/filerepository~FileRepository}:
  *
  * ```ts
  * this.listenTo( editor.editing.view.document, 'clipboardInput', ( evt, data ) => {
- * 	// Assuming that only images were pasted:
- * 	const images = Array.from( data.dataTransfer.files );
+ * 	// Assuming that only supported files were pasted:
+ * 	const files = Array.from( data.dataTransfer.files );
  *
- * 	// Upload the first image:
- * 	editor.execute( 'uploadImage', { file: images[ 0 ] } );
+ * 	// Upload the first file:
+ * 	editor.execute( 'uploadFile', { file: files[ 0 ] } );
  * } );
  * ```
  *
- * It is also possible to insert multiple images at once:
+ * It is also possible to insert multiple files at once:
  *
  * ```ts
- * editor.execute( 'uploadImage', {
+ * editor.execute( 'uploadFile', {
  * 	file: [
  * 		file1,
  * 		file2
  * 	]
  * } );
  * ```
+ *
+ * Files exceeding the {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#maxFileSize},
+ * {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#maxFilesPerInsert} or
+ * {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#maxTotalSize} limits are not inserted
+ * (the size limits do not apply to the remote files, their size is not known yet).
+ * For each of them the {@link ~UploadFileCommand#event:uploadRejected `uploadRejected`} event is fired.
+ *
+ * The inserted files are passed to the {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#validateFile}
+ * callback before they are uploaded. It can reject or replace the file, or attach metadata to it. The remote files
+ * (see {@link module:file-uploader/utils~createRemoteFile}) are not validated, their content is not known yet.
+ *
+ * The command is disabled in the read-only mode, when no upload adapter is set, and when a file attachment cannot be inserted
+ * at the selection (see {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#disallowedParents}).
  */
 export default class UploadFileCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		// Inform the user about every rejected file. The handler can be stopped to provide a custom feedback.
+		this.on<FileUploadRejectedEvent>( 'uploadRejected', ( evt, { message } ) => {
+			editor.plugins.get( Notification ).showWarning( message, {
+				title: editor.t( 'Upload rejected' ),
+				namespace: 'upload'
+			} );
+		}, { priority: 'low' } );
+
+		// The upload adapter is usually set after the command is created, by the plugins initialized later.
+		// Check it again when the editor data is ready, and before the execution, as it could have been set anytime.
+		this.listenTo( editor.data, 'ready', () => this.refresh() );
+		this.on( 'execute', () => this.refresh(), { priority: 'highest' } );
+	}
+
 	/**
 	 * @inheritDoc
 	 */
 	public override refresh(): void {
-		// TODO: This needs refactoring.
-		this.isEnabled = true;
+		this.isEnabled = this.canUploadAt( this.editor.model.document.selection );
+	}
+
+	/**
+	 * Checks whether the files can be uploaded and inserted at the selection: the editor is not read-only, an upload adapter is set
+	 * and a file attachment can be inserted there (see {@link module:file-uploader/utils~canInsertFileAttachment}).
+	 *
+	 * @param selection The place where the files are going to be inserted, e.g. the target of the dropped files.
+	 */
+	public canUploadAt( selection: Selection | DocumentSelection ): boolean {
+		const editor = this.editor;
+
+		return !editor.isReadOnly &&
+			!!editor.plugins.get( FileRepository ).createUploadAdapter &&
+			canInsertFileAttachment( editor.model, selection, editor.config.get( 'fileUploader.disallowedParents' )! );
 	}
 
 	/**
@@ -58,10 +114,11 @@ export default class UploadFileCommand extends Command {
 	 *
 	 * @fires execute
 	 * @param options Options for the executed command.
-	 * @param options.file The image file or an array of image files to upload.
+	 * @param options.file The file or an array of files to upload.
+	 * @param options.attributes Additional attributes of the inserted file attachments, e.g. a custom `fileName` label.
 	 */
-	public override execute( options: { file: ArrayOrItem<File> } ): void {
-		const files = toArray( options.file );
+	public override execute( options: { file: ArrayOrItem<File>; attributes?: Record<string, unknown> } ): void {
+		const files = this._validateFiles( toArray( options.file ) );
 		const selection = this.editor.model.document.selection;
 
 		// In case of multiple files, each file (starting from the 2nd) will be inserted at a position that
@@ -72,71 +129,282 @@ export default class UploadFileCommand extends Command {
 		// not split that link but preserves its continuity.
 		//
 		// Note: Selection attributes that do not make sense for images will be filtered out by insertImage() anyway.
-		const selectionAttributes = Object.fromEntries( selection.getAttributes() );
+		const selectionAttributes = { ...Object.fromEntries( selection.getAttributes() ), ...options.attributes };
+
+		files.forEach( ( file, index ) => {
+			const selectedElement = selection.getSelectedElement();
 
-		files.forEach( file => {
-			this._uploadFile( file, selectionAttributes );
+			// Inserting of a file attachment sets the selection on it. Put the following files after
+			// the previous one instead of replacing it.
+			if ( index && selectedElement && isFileAttachment( selectedElement ) ) {
+				const position = this.editor.model.createPositionAfter( selectedElement );
+
+				this._uploadFile( file, selectionAttributes, position );
+			} else {
+				this._uploadFile( file, selectionAttributes );
+			}
 		} );
 	}
 
+	/**
+	 * Checks the files against the configured limits and returns the ones that can be uploaded.
+	 * The {@link ~UploadFileCommand#event:uploadRejected `uploadRejected`} event is fired for every rejected file.
+	 */
+	private _validateFiles( files: Array<File> ): Array<File> {
+		const editor = this.editor;
+		const t = editor.t;
+		const maxFileSize = editor.config.get( 'fileUploader.maxFileSize' );
+		const maxFilesPerInsert = editor.config.get( 'fileUploader.maxFilesPerInsert' );
+		const maxTotalSize = editor.config.get( 'fileUploader.maxTotalSize' );
+		const acceptedFiles: Array<File> = [];
+		let totalSize = maxTotalSize ? getTotalFileSize( editor ) : 0;
+
+		for ( const file of files ) {
+			// The size of a remote file is not known, its content is the URL.
+			const size = isRemoteFile( file ) ? 0 : file.size;
+			let reason: FileUploadRejectionReason | null = null;
+			let message = '';
+
+			if ( maxFilesPerInsert && acceptedFiles.length >= maxFilesPerInsert ) {
+				reason = 'maxFilesPerInsert';
+				message = t( 'The file "%0" was not inserted. You can insert up to %1 files at once.', [ file.name, maxFilesPerInsert ] );
+			} else if ( maxFileSize && size > maxFileSize ) {
+				reason = 'maxFileSize';
+				message = t( 'The file "%0" is larger than the allowed %1.', [ file.name, formatFileSize( maxFileSize ) ] );
+			} else if ( maxTotalSize && totalSize + size > maxTotalSize ) {
+				reason = 'maxTotalSize';
+				message = t( 'The file "%0" was not inserted. All files can be up to %1 in total.', [
+					file.name, formatFileSize( maxTotalSize )
+				] );
+			}
+
+			if ( reason ) {
+				this.fire<FileUploadRejectedEvent>( 'uploadRejected', { file, reason, message } );
+			} else {
+				acceptedFiles.push( file );
+				totalSize += size;
+			}
+		}
+
+		return acceptedFiles;
+	}
+
 	/**
 	 * Handles uploading single file.
 	 */
-	private _uploadFile( file: File, attributes: object ): void {
+	private _uploadFile( file: File, attributes: object, position?: Position ): void {
 		const editor = this.editor;
+
+		file = sanitizeFile( file, editor.config.get( 'fileUploader.sanitizeFileName' ) );
+
 		const fileRepository = editor.plugins.get( FileRepository );
-		const loader = fileRepository.createLoader( file );
+		const validateFile = !isRemoteFile( file ) && editor.config.get( 'fileUploader.validateFile' );
+		let resolveFile: ( file: File ) => void;
+		let rejectFile: ( error: unknown ) => void;
+
+		// The file is uploaded when it is validated. The loader id is needed for the validation, so the promise is resolved later.
+		const loader = fileRepository.createLoader( validateFile ? new Promise<File>( ( resolve, reject ) => {
+			resolveFile = resolve;
+			rejectFile = reject;
+		} ) : file );
 
 		// Do not throw when upload adapter is not set. FileRepository will log an error anyway.
 		if ( !loader ) {
 			return;
 		}
 
-		this._insertFile( file, { ...attributes, linkHref: '', uploadId: loader.id } );
+		this._insertFile( file, { ...attributes, linkHref: '', uploadId: loader.id }, position );
+
+		if ( validateFile ) {
+			Promise.resolve()
+				.then( () => validateFile( file ) )
+				.then( result => this._handleValidationResult( file, loader.id, result || {} ) )
+				.then( resolveFile!, rejectFile! );
+		}
+	}
+
+	/**
+	 * Handles the result of the {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#validateFile} callback
+	 * and returns the file to upload.
+	 *
+	 * A rejected file is removed from the content and the {@link ~UploadFileCommand#event:uploadRejected `uploadRejected`}
+	 * event is fired. The attributes of a replaced file are updated.
+	 */
+	private _handleValidationResult( file: File, uploadId: string, result: FileValidationResult ): File {
+		const editor = this.editor;
+		const fileUploadEditing = editor.plugins.get( 'FileUploadEditing' );
+		const { error, file: uploadedFile = file, metadata } = result;
+
+		if ( error ) {
+			this.fire<FileUploadRejectedEvent>( 'uploadRejected', { file, reason: 'validateFile', message: error } );
+
+			fileUploadEditing.cancelUpload( uploadId );
+
+			throw error;
+		}
+
+		if ( metadata ) {
+			setFileMetadata( uploadedFile, metadata );
+		}
+
+		const upload = fileUploadEditing.getUploads().find( upload => upload.uploadId == uploadId );
+
+		if ( upload && uploadedFile !== file ) {
+			const fileElement = upload.fileElement;
+			const fileType = getFileType( uploadedFile );
+
+			editor.model.enqueueChange( { isUndoable: false }, writer => {
+				// Keep the custom label of the file, e.g. the label of a replaced file attachment.
+				if ( fileElement.getAttribute( 'fileName' ) == this._getFileLabel( file ) ) {
+					writer.setAttribute( 'fileName', this._getFileLabel( uploadedFile ), fileElement );
+				}
+
+				writer.setAttribute( 'fileSize', uploadedFile.size, fileElement );
+
+				if ( fileType ) {
+					writer.setAttribute( 'fileType', fileType, fileElement );
+				} else {
+					writer.removeAttribute( 'fileType', fileElement );
+				}
+			} );
+		}
+
+		return uploadedFile;
 	}
 
 	/**
-	* Handles inserting single file. This method unifies file insertion using {@link module:widget/utils~findOptimalInsertionRange}
-	* method.
-	*
-	* @param attributes Attributes of the inserted file.
-	* This method filters out the attributes which are disallowed by the {@link module:engine/model/schema~Schema}.
-	* @param selectable Place to insert the file. If not specified,
-	* the {@link module:widget/utils~findOptimalInsertionRange} logic will be applied for the file.
-	*
-	* **Note**: If `selectable` is passed, this helper will not be able to set selection attributes (such as `linkHref`)
-	* and apply them to the new file. In this case, make sure all selection attributes are passed in `attributes`.
-	*
-	* @param fileType File type of inserted file. If not specified,
-	* it will be determined automatically depending of editor config or place of the insertion.
-	* @return The inserted model file element.
-	*/
+	 * Handles inserting single file. The file is inserted as a `fileAttachment` (block) or `fileAttachmentInline`
+	 * element, depending on the insertion place (see {@link module:file-uploader/utils~determineFileAttachmentType}).
+	 *
+	 * @param file The inserted file.
+	 * @param attributes Attributes of the inserted file element.
+	 * This method filters out the attributes which are disallowed by the {@link module:engine/model/schema~Schema}.
+	 * @param selectable Place to insert the file. If not specified,
+	 * the {@link module:widget/utils~findOptimalInsertionRange} logic will be applied for block attachments.
+	 *
+	 * **Note**: If `selectable` is passed, this helper will not be able to set selection attributes (such as `linkHref`)
+	 * and apply them to the new file. In this case, make sure all selection attributes are passed in `attributes`.
+	 * @return The inserted model file element.
+	 */
 	private _insertFile(
 		file: File,
-		attributes: Record<string, unknown> = {}
+		attributes: Record<string, unknown> = {},
+		selectable?: Position
 	): Element | null {
 		const model = this.editor.model;
 		const selection = model.document.selection;
+		const fileAttachmentType = determineFileAttachmentType( model.schema, selectable || selection );
+		const isRemote = isRemoteFile( file );
+		// The type of a remote file is determined from its name.
+		const fileType = getFileType( isRemote ? { name: file.name, type: '' } : file );
 
-		// Mix declarative attributes with selection attributes because the new image should "inherit"
-		// the latter for best UX. For instance, inline images inserted into existing links
-		// should not split them. To do that, they need to have "linkHref" inherited from the selection.
+		// Mix declarative attributes with selection attributes because the new file should "inherit"
+		// the latter for best UX. For instance, inline files inserted into bold text should stay bold.
 		attributes = {
 			...Object.fromEntries( selection.getAttributes() ),
+			fileName: this._getFileLabel( file ),
+			// The size of a remote file is known only when it is fetched by the server.
+			...( isRemote ? {} : { fileSize: file.size } ),
+			...( fileType ? { fileType } : {} ),
 			...attributes
 		};
 
 		for ( const attributeName in attributes ) {
-			if ( !model.schema.checkAttribute( '$text', attributeName ) ) {
+			if ( !model.schema.checkAttribute( fileAttachmentType, attributeName ) ) {
 				delete attributes[ attributeName ];
 			}
 		}
 
 		return model.change( ( writer: Writer ): Element | null => {
-			const fileElement = writer.createText( file.name, attributes );
-			const insertAtSelection = findOptimalInsertionRange( selection, model );
-			model.insertContent( fileElement, insertAtSelection );
-			return null;
+			const fileElement = writer.createElement( fileAttachmentType, attributes );
+
+			model.insertObject( fileElement, selectable, null, {
+				setSelection: 'on',
+				// Do not split text blocks when a block attachment is inserted at the selection.
+				findOptimalPosition: !selectable && fileAttachmentType != 'fileAttachmentInline' ? 'auto' : undefined
+			} );
+
+			// Inserting a file might've failed due to schema regulations.
+			return fileElement.parent ? fileElement : null;
 		} );
 	}
+
+	/**
+	 * Returns the label of the file attachment (see {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#formatLabel}).
+	 */
+	private _getFileLabel( file: File ): string {
+		const isRemote = isRemoteFile( file );
+
+		return this.editor.config.get( 'fileUploader.formatLabel' )!( {
+			name: file.name,
+			size: isRemote ? 0 : file.size,
+			type: getFileType( isRemote ? { name: file.name, type: '' } : file )
+		} );
+	}
+}
+
+/**
+ * Returns the total size of all file attachments in the editor content.
+ */
+function getTotalFileSize( editor: Editor ): number {
+	const model = editor.model;
+	let totalSize = 0;
+
+	for ( const root of model.document.getRoots() ) {
+		for ( const { item } of model.createRangeIn( root ) ) {
+			if ( isFileAttachment( item ) ) {
+				totalSize += ( item.getAttribute( 'fileSize' ) as number | undefined ) || 0;
+			}
+		}
+	}
+
+	return totalSize;
 }
+
+/**
+ * The reason of a file rejection, i.e. the name of the exceeded configuration option, or `'validateFile'` for a file
+ * rejected by the {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#validateFile} callback.
+ */
+export type FileUploadRejectionReason = 'maxFileSize' | 'maxFilesPerInsert' | 'maxTotalSize' | 'validateFile';
+
+/**
+ * An event fired by the {@link ~UploadFileCommand} for every file that was not inserted because it exceeds
+ * one of the configured limits, or that was rejected by the
+ * {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#validateFile} callback.
+ *
+ * By default, a warning {@link module:ui/notification/notification~Notification notification} is shown with the event message.
+ * The default handler has a low priority, so it can be stopped to provide a custom feedback:
+ *
+ * ```ts
+ * editor.commands.get( 'uploadFile' ).on( 'uploadRejected', ( evt, { file, reason } ) => {
+ * 	evt.stop();
+ *
+ * 	showCustomMessage( file, reason );
+ * } );
+ * ```
+ *
+ * @eventName ~UploadFileCommand#uploadRejected
+ * @param data The `uploadRejected` event data.
+ */
+export type FileUploadRejectedEvent = {
+	name: 'uploadRejected';
+	args: [ data: FileUploadRejectedData ];
+};
+
+export type FileUploadRejectedData = {
+
+	/**
+	 * The rejected file.
+	 */
+	file: File;
+
+	/**
+	 * The reason of the rejection.
+	 */
+	reason: FileUploadRejectionReason;
+
+	/**
+	 * The translated message describing the rejection.
+	 */
+	message: string;
+};
@@ -4,55 +4,457 @@
  */
 
 /**
- * @module image/imageupload/utils
+ * @module file-uploader/utils
  */
 
-/* global fetch, File */
+/* global fetch, File, URL, document, crypto */
 
-import type { ViewElement } from 'ckeditor5/src/engine';
+import type {
+	DocumentSelection,
+	Element,
+	Item,
+	Model,
+	Position,
+	Schema,
+	Selection,
+	ViewDocumentSelection,
+	ViewElement,
+	ViewSelection
+} from 'ckeditor5/src/engine';
+import { first } from 'ckeditor5/src/utils';
+import { findOptimalInsertionRange, isWidget } from 'ckeditor5/src/widget';
 import * as mime from 'mime';
 
 /**
- * Creates a regular expression used to test for image files.
+ * The metadata attached to the files by the `validateFile` callback (see {@link ~setFileMetadata}).
+ */
+const fileMetadata = new WeakMap<File, Record<string, string>>();
+
+/**
+ * The MIME type of the files created with {@link ~createRemoteFile}.
+ */
+const REMOTE_FILE_TYPE = 'text/x-file-uploader-url';
+
+/**
+ * Names of the model elements representing a file attachment.
+ */
+export type FileAttachmentType = 'fileAttachment' | 'fileAttachmentInline';
+
+/**
+ * The categories of file types returned by {@link ~getFileTypeCategory}.
+ */
+export type FileTypeCategory = 'pdf' | 'word' | 'spreadsheet' | 'archive' | 'image' | 'audio' | 'video' | 'generic';
+
+/**
+ * Creates a function that checks whether a file is of one of the given types. The types can be:
+ *
+ * * file extensions (with or without the leading dot), e.g. `'pdf'` or `'.dwg'`,
+ * * MIME types, e.g. `'application/vnd.ms-excel'`,
+ * * MIME types with wildcards, e.g. `'image/*'` or `'application/vnd.openxmlformats-*'`.
+ *
+ * Browsers leave the type of many files empty (e.g. `.docx`, `.md` or `.dwg` files). The MIME type of such files
+ * is determined from the file name extension.
  *
  * ```ts
- * const imageType = createImageTypeRegExp( [ 'png', 'jpeg', 'svg+xml', 'vnd.microsoft.icon' ] );
+ * const isAllowedFile = createFileTypeMatcher( [ 'pdf', 'image/*' ] );
  *
- * console.log( 'is supported image', imageType.test( file.type ) );
+ * console.log( 'is allowed file', isAllowedFile( file ) );
  * ```
+ *
+ * @param types The allowed file types.
  */
-export function createFileTypeRegExp( types: Array<string> ): RegExp {
-	// Sanitize the MIME type name which may include: "+", "-" or ".".
-	const regExpSafeNames = types.flatMap( type => {
-		const safeType = type.replace( '+', '\\+' );
-		const mimeType = mime.getType( safeType );
-		if ( mimeType ) {
-			return [ mimeType ];
+export function createFileTypeMatcher( types: Array<string> ): ( file: Pick<File, 'name' | 'type'> ) => boolean {
+	const extensions = new Set<string>();
+	const mimeTypePatterns: Array<RegExp> = [];
+
+	for ( const type of types.map( type => type.trim().toLowerCase() ) ) {
+		if ( type.includes( '/' ) ) {
+			mimeTypePatterns.push( createMimeTypeRegExp( type ) );
+		} else if ( type ) {
+			const extension = type.replace( /^\./, '' );
+			const mimeType = mime.getType( extension );
+
+			extensions.add( extension );
+
+			// Match the files of a known type with a different extension too, e.g. `.jpg` for `jpeg`.
+			if ( mimeType ) {
+				mimeTypePatterns.push( createMimeTypeRegExp( mimeType ) );
+			}
 		}
-		return [];
-	} );
+	}
+
+	return file => {
+		if ( extensions.has( getFileExtension( file.name ) ) ) {
+			return true;
+		}
+
+		const mimeType = getFileType( file ).toLowerCase();
+
+		return !!mimeType && mimeTypePatterns.some( pattern => pattern.test( mimeType ) );
+	};
+}
+
+/**
+ * Returns the value of the `accept` attribute of a file input for the given file types
+ * (see {@link ~createFileTypeMatcher} for the supported formats).
+ *
+ * An empty string (accept all files) is returned if a type cannot be expressed by the attribute, e.g. a MIME type with
+ * a wildcard other than `type/*`. The picked files should be checked with the {@link ~createFileTypeMatcher file type matcher} anyway.
+ *
+ * @param types The allowed file types.
+ */
+export function getFileTypeAcceptValue( types: Array<string> ): string {
+	const values = [];
+
+	for ( const type of types.map( type => type.trim().toLowerCase() ) ) {
+		if ( !type.includes( '/' ) ) {
+			values.push( '.' + type.replace( /^\./, '' ) );
+		} else if ( !type.includes( '*' ) || /^[^*]+\/\*$/.test( type ) ) {
+			values.push( type );
+		} else {
+			return '';
+		}
+	}
+
+	return values.join( ',' );
+}
+
+/**
+ * Returns the MIME type of a file. If the browser did not recognize the type, it is determined from the file name extension.
+ * An empty string is returned if the type is unknown.
+ *
+ * @param file The file.
+ */
+export function getFileType( file: Pick<File, 'name' | 'type'> ): string {
+	return file.type || mime.getType( file.name ) || '';
+}
+
+/**
+ * Returns the category of a file type, used e.g. to pick the icon of a file attachment:
+ *
+ * ```ts
+ * getFileTypeCategory( 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ); // -> 'spreadsheet'
+ * ```
+ *
+ * @param mimeType The MIME type of the file.
+ */
+export function getFileTypeCategory( mimeType: string ): FileTypeCategory {
+	const [ mediaType, subtype = '' ] = mimeType.toLowerCase().split( '/' );
+
+	// The CAD drawings (e.g. `image/vnd.dwg`) are registered as images, but they are not viewable images.
+	if ( mediaType == 'image' && /^vnd\.(dwg|dxf)$/.test( subtype ) ) {
+		return 'generic';
+	}
+
+	if ( mediaType == 'image' || mediaType == 'audio' || mediaType == 'video' ) {
+		return mediaType;
+	}
+
+	if ( subtype == 'pdf' ) {
+		return 'pdf';
+	}
+
+	if ( /msword|wordprocessingml|opendocument\.text|rtf/.test( subtype ) ) {
+		return 'word';
+	}
+
+	if ( /ms-excel|spreadsheetml|opendocument\.spreadsheet|csv/.test( subtype ) ) {
+		return 'spreadsheet';
+	}
+
+	if ( /zip|rar|7z|tar|gzip|bzip|xz|compressed/.test( subtype ) ) {
+		return 'archive';
+	}
+
+	return 'generic';
+}
+
+/**
+ * Returns the name and the MIME type of the file of a file attachment. The file name is read from the link of the file,
+ * or from its label if the link has no file extension (e.g. while the file is uploaded). The MIME type is determined
+ * from the file name if it is not stored in the `fileType` attribute.
+ *
+ * @param fileElement The file attachment model element.
+ */
+export function getFileAttachmentFileType( fileElement: Element ): Pick<File, 'name' | 'type'> {
+	const linkHref = String( fileElement.getAttribute( 'linkHref' ) || '' ).replace( /[?#].*$/, '' );
+	const linkName = linkHref.slice( linkHref.lastIndexOf( '/' ) + 1 );
+	const name = getFileExtension( linkName ) ? linkName : String( fileElement.getAttribute( 'fileName' ) || '' );
+
+	return {
+		name,
+		type: getFileType( { name, type: String( fileElement.getAttribute( 'fileType' ) || '' ) } )
+	};
+}
+
+/**
+ * Checks if the provided model item is a file attachment element (block or inline).
+ *
+ * @param item The model item to check.
+ */
+export function isFileAttachment( item: Item | null | undefined ): item is Element {
+	return !!item && ( item.is( 'element', 'fileAttachment' ) || item.is( 'element', 'fileAttachmentInline' ) );
+}
+
+/**
+ * Returns the file attachment element selected in the model, or `null` if there is none.
+ *
+ * @param selection The model selection.
+ */
+export function getSelectedFileAttachment( selection: Selection | DocumentSelection ): Element | null {
+	const selectedElement = selection.getSelectedElement();
+
+	return isFileAttachment( selectedElement ) ? selectedElement : null;
+}
+
+/**
+ * Returns the file attachment widget selected in the editing view, or `null` if there is none.
+ *
+ * @param selection The view selection.
+ */
+export function getSelectedFileAttachmentWidget( selection: ViewSelection | ViewDocumentSelection ): ViewElement | null {
+	const selectedElement = selection.getSelectedElement();
+
+	return selectedElement && isWidget( selectedElement ) && selectedElement.hasClass( 'ck-file-attachment' ) ? selectedElement : null;
+}
+
+/**
+ * Returns the file attachment type (block or inline) that should be used for an insertion at the given selectable.
+ *
+ * A block attachment is used when the selection is not in a block, is on a block widget or in an empty block.
+ * Otherwise, the attachment is inserted inline so it does not split the text.
+ *
+ * @param schema The model schema.
+ * @param selectable The place where the attachment is going to be inserted.
+ */
+export function determineFileAttachmentType(
+	schema: Schema,
+	selectable: Selection | DocumentSelection | Position
+): FileAttachmentType {
+	if ( selectable.is( 'position' ) ) {
+		return schema.checkChild( selectable, 'fileAttachmentInline' ) ? 'fileAttachmentInline' : 'fileAttachment';
+	}
+
+	const firstBlock = first( selectable.getSelectedBlocks() );
+
+	if ( !firstBlock || schema.isObject( firstBlock ) ) {
+		return 'fileAttachment';
+	}
+
+	// Do not split an empty list item with a block attachment.
+	if ( firstBlock.isEmpty && firstBlock.name != 'listItem' ) {
+		return 'fileAttachment';
+	}
 
-	return new RegExp( `^${ regExpSafeNames.join( '|' ) }$` );
+	return 'fileAttachmentInline';
+}
+
+/**
+ * Checks whether a file attachment can be inserted at the selection. The selection must be in an editable place
+ * and not inside any of the disallowed parent elements (e.g. a code block), and the schema must allow the file attachment
+ * (see {@link ~determineFileAttachmentType}) with the `linkHref` attribute in the place where it would be inserted.
+ *
+ * @param model The editor model.
+ * @param selection The place where the attachment is going to be inserted.
+ * @param disallowedParents The names of the elements the attachment cannot be inserted into.
+ */
+export function canInsertFileAttachment(
+	model: Model,
+	selection: Selection | DocumentSelection,
+	disallowedParents: Array<string>
+): boolean {
+	const schema = model.schema;
+	const position = selection.getFirstPosition();
+
+	if ( !position || !model.canEditAt( selection ) ) {
+		return false;
+	}
+
+	if ( position.getAncestors().some( ancestor => ancestor.is( 'element' ) && disallowedParents.includes( ancestor.name ) ) ) {
+		return false;
+	}
+
+	const fileAttachmentType = determineFileAttachmentType( schema, selection );
+	let parent = position.parent as Element;
+
+	// A block attachment is inserted in the optimal place next to the selection, or replaces the empty block.
+	if ( fileAttachmentType == 'fileAttachment' ) {
+		parent = findOptimalInsertionRange( selection, model ).start.parent as Element;
+
+		if ( parent.isEmpty && !parent.is( 'rootElement' ) ) {
+			parent = parent.parent as Element;
+		}
+	}
+
+	return schema.checkChild( parent, fileAttachmentType ) &&
+		schema.checkAttribute( schema.createContext( parent ).push( fileAttachmentType ), 'linkHref' );
+}
+
+/**
+ * Formats the file size in bytes as a human-readable string.
+ *
+ * ```ts
+ * formatFileSize( 2411724 ); // -> '2.3 MB'
+ * ```
+ *
+ * @param size The file size in bytes.
+ */
+export function formatFileSize( size: number ): string {
+	const units = [ 'B', 'KB', 'MB', 'GB', 'TB' ];
+	let unitIndex = 0;
+
+	while ( size >= 1024 && unitIndex < units.length - 1 ) {
+		size /= 1024;
+		unitIndex++;
+	}
+
+	return `${ unitIndex ? size.toFixed( 1 ) : size } ${ units[ unitIndex ] }`;
+}
+
+/**
+ * Returns a short, human-readable label of the file type based on its MIME type, e.g. `'PDF'` for `'application/pdf'`.
+ *
+ * @param mimeType The MIME type of the file.
+ */
+export function getFileTypeLabel( mimeType: string ): string {
+	const extension = mimeType ? mime.getExtension( mimeType ) : null;
+
+	return extension ? extension.toUpperCase() : '';
+}
+
+/**
+ * Computes the SHA-256 hash of a file with the Web Crypto API, as a hexadecimal string. Only the APIs available
+ * in web workers are used, so the function can be moved to a worker as is. Note that the whole file is read into the memory.
+ *
+ * ```ts
+ * computeFileHash( new File( [ 'foo' ], 'foo.txt' ) ); // -> Promise resolved with '2c26b46b...'
+ * ```
+ *
+ * @param file The file to hash.
+ */
+export function computeFileHash( file: Blob ): Promise<string> {
+	return file.arrayBuffer()
+		.then( buffer => crypto.subtle.digest( 'SHA-256', buffer ) )
+		.then( digest => Array.from( new Uint8Array( digest ), byte => byte.toString( 16 ).padStart( 2, '0' ) ).join( '' ) );
+}
+
+/**
+ * Returns the name of the file linked by an absolute HTTP(S) URL, i.e. the last segment of the URL path.
+ * An empty string is returned if the URL is not valid or its path does not end with a file name.
+ *
+ * ```ts
+ * getUrlFileName( 'https://example.com/files/Annual%20report.pdf?v=2' ); // -> 'Annual report.pdf'
+ * ```
+ *
+ * @param url The URL of the file.
+ */
+export function getUrlFileName( url: string ): string {
+	let parsedUrl: URL;
+
+	try {
+		parsedUrl = new URL( url );
+	} catch ( error ) {
+		return '';
+	}
+
+	if ( parsedUrl.protocol != 'http:' && parsedUrl.protocol != 'https:' ) {
+		return '';
+	}
+
+	const fileName = parsedUrl.pathname.slice( parsedUrl.pathname.lastIndexOf( '/' ) + 1 );
+
+	try {
+		return decodeURIComponent( fileName );
+	} catch ( error ) {
+		return fileName;
+	}
+}
+
+/**
+ * Checks whether the link of a file can be opened safely: it is an HTTP(S) URL or a URL relative to the document.
+ * The links upcast from the loaded or pasted content can be e.g. `javascript:` or `data:` URLs.
+ *
+ * @param url The URL of the file.
+ */
+export function isSafeFileUrl( url: string ): boolean {
+	let parsedUrl: URL;
+
+	try {
+		parsedUrl = new URL( url, document.baseURI );
+	} catch ( error ) {
+		return false;
+	}
+
+	return parsedUrl.protocol == 'http:' || parsedUrl.protocol == 'https:';
+}
+
+/**
+ * Creates a file standing for a remote file that is fetched by the server instead of being uploaded
+ * (see {@link module:file-uploader/fileuploaderconfig~FileUploaderConfig#urlHandling}). The content of the file is its URL.
+ * Such a file is uploaded like the other files, so the upload adapters should check it with {@link ~isRemoteFile}:
+ *
+ * ```ts
+ * if ( isRemoteFile( file ) ) {
+ * 	const url = await file.text();
+ *
+ * 	// Ask the server to fetch the file.
+ * }
+ * ```
+ *
+ * @param url The URL of the remote file.
+ * @param fileName The name of the file.
+ */
+export function createRemoteFile( url: string, fileName: string ): File {
+	return new File( [ url ], fileName, { type: REMOTE_FILE_TYPE } );
+}
+
+/**
+ * Checks whether the file stands for a remote file created with {@link ~createRemoteFile}.
+ *
+ * @param file The file to check.
+ */
+export function isRemoteFile( file: Blob ): boolean {
+	return file.type == REMOTE_FILE_TYPE;
+}
+
+/**
+ * Returns the value of a cookie, or `null` if the cookie is not set.
+ *
+ * @param name The name of the cookie.
+ */
+export function getCookie( name: string ): string | null {
+	for ( const cookie of document.cookie.split( ';' ) ) {
+		const [ cookieName, ...value ] = cookie.trim().split( '=' );
+
+		if ( cookieName == name ) {
+			return decodeURIComponent( value.join( '=' ) );
+		}
+	}
+
+	return null;
 }
 
 /**
  * Creates a promise that fetches the file local source (Base64 or blob) and resolves with a `File` object.
  *
- * @param file File whose source to fetch.
+ * @param file The link to the file whose source to fetch.
  * @returns A promise which resolves when an file source is fetched and converted to a `File` instance.
  * It resolves with a `File` object. If there were any errors during file processing, the promise will be rejected.
  */
 export function fetchLocalFile( file: ViewElement ): Promise<File> {
 	return new Promise( ( resolve, reject ) => {
 		const fileSrc = file.getAttribute( 'href' )!;
+		const linkText = getViewElementText( file ).trim();
 
 		// Fetch works asynchronously and so does not block browser UI when processing data.
 		fetch( fileSrc )
 			.then( resource => resource.blob() )
 			.then( blob => {
-				const mimeType = getFileMimeType( blob, fileSrc );
-				const ext = mimeType.replace( 'file/', '' );
-				const filename = `file.${ ext }`;
+				const mimeType = getFileMimeType( blob, fileSrc, linkText );
+				const extension = mimeType && mime.getExtension( mimeType );
+
+				// Use the link text as the file name if it looks like one, e.g. "Report.pdf".
+				const filename = /\.\w+$/.test( linkText ) ? linkText : `${ linkText || 'file' }${ extension ? '.' + extension : '' }`;
 				const file = new File( [ blob ], filename, { type: mimeType } );
 				resolve( file );
 			} )
@@ -66,25 +468,133 @@ export function fetchLocalFile( file: ViewElement ): Promise<File> {
 }
 
 /**
- * Checks whether a given node is an file element with a local source (Base64 or blob).
+ * Normalizes a file name, so it can be stored on common file systems: characters not allowed in file names
+ * and control characters are replaced with `_`, whitespace is collapsed and leading and trailing dots and spaces are removed.
+ *
+ * ```ts
+ * sanitizeFileName( ' Scan: 2024/03   "final".pdf ' ); // -> 'Scan_ 2024_03 _final_.pdf'
+ * ```
+ *
+ * @param fileName The file name.
+ */
+export function sanitizeFileName( fileName: string ): string {
+	const sanitized = fileName
+		.normalize( 'NFC' )
+		// eslint-disable-next-line no-control-regex
+		.replace( /[\\/:*?"<>|\u0000-\u001f\u007f]/g, '_' )
+		.replace( /\s+/g, ' ' )
+		.replace( /^[\s.]+|[\s.]+$/g, '' );
+
+	return sanitized || 'file';
+}
+
+/**
+ * Returns the file with the name sanitized according to the `sanitizeFileName` configuration option.
+ * The same file is returned if the name does not change.
+ *
+ * @param file The file to sanitize.
+ * @param sanitizer The `sanitizeFileName` configuration: `true` to use {@link ~sanitizeFileName} or a custom function.
+ */
+export function sanitizeFile( file: File, sanitizer: boolean | ( ( fileName: string ) => string ) | undefined ): File {
+	if ( !sanitizer ) {
+		return file;
+	}
+
+	const fileName = sanitizer === true ? sanitizeFileName( file.name ) : sanitizer( file.name );
+
+	if ( fileName == file.name ) {
+		return file;
+	}
+
+	return new File( [ file ], fileName, { type: file.type, lastModified: file.lastModified } );
+}
+
+/**
+ * Attaches metadata to the file. The metadata is sent to the server with the file by the
+ * {@link module:file-uploader/fileuploadadapter~FileUploadAdapter upload adapter}.
+ *
+ * @param file The uploaded file.
+ * @param metadata The metadata of the file.
+ */
+export function setFileMetadata( file: File, metadata: Record<string, string> ): void {
+	fileMetadata.set( file, metadata );
+}
+
+/**
+ * Returns the metadata attached to the file with {@link ~setFileMetadata}, e.g. by the `validateFile` callback.
+ * Custom upload adapters can use it to send the metadata to the server.
+ *
+ * @param file The uploaded file.
+ */
+export function getFileMetadata( file: File ): Record<string, string> {
+	return fileMetadata.get( file ) || {};
+}
+
+/**
+ * Checks whether a given node is a link to a file with a local source (Base64 or blob).
  *
  * @param node The node to check.
  */
 export function isLocalFile( node: ViewElement ): boolean {
-	return false;
+	if ( !node.is( 'element', 'a' ) ) {
+		return false;
+	}
+
+	return /^(data|blob):/i.test( node.getAttribute( 'href' ) || '' );
+}
+
+/**
+ * Returns the text content of a view element.
+ *
+ * @param viewElement The view element.
+ */
+export function getViewElementText( viewElement: ViewElement ): string {
+	return Array.from( viewElement.getChildren() )
+		.map( child => {
+			if ( child.is( '$text' ) ) {
+				return child.data;
+			}
+
+			return child.is( 'element' ) ? getViewElementText( child ) : '';
+		} )
+		.join( '' );
+}
+
+/**
+ * Creates a regular expression matching the MIME type. The `*` wildcard matches any sequence of characters.
+ */
+function createMimeTypeRegExp( mimeType: string ): RegExp {
+	// Escape the special characters the MIME type name may include, e.g. "+" or ".".
+	const pattern = mimeType.split( '*' ).map( part => part.replace( /[.*+?^${}()|[\]\\]/g, '\\$&' ) ).join( '.*' );
+
+	return new RegExp( `^${ pattern }$` );
 }
 
 /**
- * Extracts an file type based on its blob representation or its source.
+ * Returns the lowercase extension of the file name without the dot, or an empty string if there is no extension.
+ */
+function getFileExtension( fileName: string ): string {
+	const index = fileName.lastIndexOf( '.' );
+
+	return index > 0 ? fileName.slice( index + 1 ).toLowerCase() : '';
+}
+
+/**
+ * Extracts a file type based on its blob representation, its source or its name.
+ * An empty string is returned if the type is unknown.
+ *
  * @param blob file blob representation.
  * @param src file `href` attribute value.
+ * @param fileName The name of the file.
  */
-function getFileMimeType( blob: Blob, src: string ): string {
+function getFileMimeType( blob: Blob, src: string, fileName: string ): string {
+	const dataUrlMatch = src.match( /^data:([\w.+-]+\/[\w.+-]+)[;,]/i );
+
 	if ( blob.type ) {
 		return blob.type;
-	} else if ( src.match( /data:(image\/\w+);base64/ ) ) {
-		return src.match( /data:(image\/\w+);base64/ )![ 1 ].toLowerCase();
+	} else if ( dataUrlMatch ) {
+		return dataUrlMatch[ 1 ].toLowerCase();
 	} else {
-		throw new Error( 'Failed to determine mime type for file.' );
+		return mime.getType( fileName ) || '';
 	}
 }
@@ -0,0 +1,170 @@
+import { expect } from 'chai';
+import { Essentials } from '@ckeditor/ckeditor5-essentials';
+import { Paragraph } from '@ckeditor/ckeditor5-paragraph';
+import { ClassicEditor } from '@ckeditor/ckeditor5-editor-classic';
+import { FileRepository } from '@ckeditor/ckeditor5-upload';
+import type { Element } from '@ckeditor/ckeditor5-engine';
+import { FileUploader, type FileAttachmentData } from '../src/index';
+
+describe( 'FileAttachmentRepository', () => {
+	const data = '<p>foo</p><div class="file-attachment-block">' +
+		'<a class="file-attachment" href="/media/a.pdf" data-file-id="1">a.pdf</a></div>';
+
+	let domElement: HTMLElement, editor: ClassicEditor, events: Array<string>, deletedFiles: Array<FileAttachmentData>;
+
+	beforeEach( async () => {
+		domElement = document.createElement( 'div' );
+		document.body.appendChild( domElement );
+
+		deletedFiles = [];
+
+		editor = await ClassicEditor.create( domElement, {
+			plugins: [
+				Paragraph,
+				Essentials,
+				FileUploader
+			],
+			fileUploader: {
+				deleteFile: file => deletedFiles.push( file ),
+				deleteFileDelay: 10
+			}
+		} );
+
+		const repository = editor.plugins.get( 'FileAttachmentRepository' );
+
+		events = [];
+
+		repository.on( 'fileAdded', ( evt, file ) => events.push( `added ${ file.key }` ) );
+		repository.on( 'fileRemoved', ( evt, file ) => events.push( `removed ${ file.key }` ) );
+
+		editor.plugins.get( FileRepository ).createUploadAdapter = () => ( {
+			upload: () => Promise.resolve( { default: '/media/b.pdf' } ),
+			abort: () => {}
+		} );
+
+		editor.setData( data );
+	} );
+
+	afterEach( () => {
+		domElement.remove();
+		return editor.destroy();
+	} );
+
+	function removeFileAttachment(): void {
+		editor.model.change( writer => {
+			writer.remove( editor.model.document.getRoot()!.getChild( 1 )! );
+		} );
+	}
+
+	function wait( time: number ): Promise<void> {
+		return new Promise( resolve => setTimeout( resolve, time ) );
+	}
+
+	async function uploadFile(): Promise<void> {
+		const repository = editor.plugins.get( 'FileAttachmentRepository' );
+
+		editor.model.change( writer => writer.setSelection( editor.model.document.getRoot()!.getChild( 0 )!, 'end' ) );
+		editor.execute( 'uploadFile', { file: new File( [ 'foo' ], 'b.pdf', { type: 'application/pdf' } ) } );
+
+		while ( !repository.hasFile( '/media/b.pdf' ) ) {
+			await wait( 5 );
+		}
+	}
+
+	function removeUploadedFile(): void {
+		const fileElement = Array.from( editor.model.createRangeIn( editor.model.document.getRoot()! ).getItems() )
+			.find( item => item.is( 'element' ) && item.getAttribute( 'linkHref' ) == '/media/b.pdf' ) as Element;
+
+		editor.model.change( writer => {
+			writer.remove( fileElement );
+		} );
+	}
+
+	it( 'should track the files in the content', () => {
+		const repository = editor.plugins.get( 'FileAttachmentRepository' );
+
+		expect( events ).to.deep.equal( [ 'added 1' ] );
+		expect( repository.hasFile( '1' ) ).to.be.true;
+		expect( repository.getFiles() ).to.deep.equal( [ { key: '1', linkHref: '/media/a.pdf', fileName: 'a.pdf', fileId: '1' } ] );
+	} );
+
+	it( 'should return the file attachments in the document order', () => {
+		editor.setData( '<p>See <a class="file-attachment" href="/media/b.pdf" data-file-size="2048">b.pdf</a></p>' + data );
+
+		const attachments = editor.plugins.get( 'FileUploader' ).getAttachments();
+
+		expect( attachments.map( ( { linkHref, fileName, fileSize, rootName } ) => ( { linkHref, fileName, fileSize, rootName } ) ) )
+			.to.deep.equal( [
+				{ linkHref: '/media/b.pdf', fileName: 'b.pdf', fileSize: 2048, rootName: 'main' },
+				{ linkHref: '/media/a.pdf', fileName: 'a.pdf', fileSize: undefined, rootName: 'main' }
+			] );
+		expect( attachments.map( ( { position } ) => position.path ) ).to.deep.equal( [ [ 0, 4 ], [ 2 ] ] );
+
+		editor.model.change( writer => {
+			writer.remove( editor.model.document.getRoot()!.getChild( 0 )! );
+		} );
+
+		expect( editor.plugins.get( 'FileUploader' ).getAttachments().map( attachment => attachment.key ) ).to.deep.equal( [ '1' ] );
+	} );
+
+	it( 'should delete a removed file uploaded in the editor after the delay', async () => {
+		await uploadFile();
+		removeUploadedFile();
+
+		expect( events ).to.deep.equal( [ 'added 1', 'added /media/b.pdf', 'removed /media/b.pdf' ] );
+		expect( deletedFiles ).to.be.empty;
+
+		await wait( 20 );
+
+		expect( deletedFiles.map( file => file.key ) ).to.deep.equal( [ '/media/b.pdf' ] );
+	} );
+
+	it( 'should not delete a removed file loaded with the editor data', async () => {
+		removeFileAttachment();
+
+		expect( events ).to.deep.equal( [ 'added 1', 'removed 1' ] );
+
+		await wait( 20 );
+
+		expect( deletedFiles ).to.be.empty;
+	} );
+
+	it( 'should not delete a file whose removal was undone', async () => {
+		await uploadFile();
+		removeUploadedFile();
+		editor.execute( 'undo' );
+
+		expect( events ).to.deep.equal( [ 'added 1', 'added /media/b.pdf', 'removed /media/b.pdf', 'added /media/b.pdf' ] );
+
+		await wait( 20 );
+
+		expect( deletedFiles ).to.be.empty;
+	} );
+
+	it( 'should not delete the files replaced with new editor data, also when the data is set in a change block', async () => {
+		await uploadFile();
+
+		editor.model.change( () => {
+			editor.setData( '<p>bar</p>' );
+		} );
+
+		expect( events.slice( 2 ) ).to.have.members( [ 'removed 1', 'removed /media/b.pdf' ] );
+
+		await wait( 20 );
+
+		expect( deletedFiles ).to.be.empty;
+	} );
+
+	it( 'should not delete the removed files when the editor is destroyed', async () => {
+		editor.config.set( 'fileUploader.deleteFileDelay', 10 );
+
+		await uploadFile();
+		removeUploadedFile();
+		await editor.destroy();
+		await wait( 20 );
+
+		expect( deletedFiles ).to.be.empty;
+
+		editor = await ClassicEditor.create( domElement, { plugins: [ Paragraph ] } );
+	} );
+} );
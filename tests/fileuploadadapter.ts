@@ -0,0 +1,402 @@
+import { expect } from 'chai';
+import { Essentials } from '@ckeditor/ckeditor5-essentials';
+import { Paragraph } from '@ckeditor/ckeditor5-paragraph';
+import { ClassicEditor } from '@ckeditor/ckeditor5-editor-classic';
+import { FileRepository } from '@ckeditor/ckeditor5-upload';
+import { FileUploader, FileUploadAdapter, createRemoteFile } from '../src/index';
+
+class XMLHttpRequestMock extends EventTarget {
+	public static requests: Array<XMLHttpRequestMock> = [];
+
+	public method = '';
+	public url = '';
+	public headers: Record<string, string> = {};
+	public body: FormData | null = null;
+	public withCredentials = false;
+	public responseType = '';
+	public response: unknown = null;
+	public status = 0;
+	public responseURL = 'https://example.com/api/uploads/';
+	public responseHeaders: Record<string, string> = {};
+	public upload = new EventTarget();
+
+	constructor() {
+		super();
+
+		XMLHttpRequestMock.requests.push( this );
+	}
+
+	public open( method: string, url: string ): void {
+		this.method = method;
+		this.url = url;
+	}
+
+	public setRequestHeader( name: string, value: string ): void {
+		this.headers[ name ] = value;
+	}
+
+	public send( body: FormData ): void {
+		this.body = body;
+	}
+
+	public abort(): void {
+		this.dispatchEvent( new Event( 'abort' ) );
+	}
+
+	public getResponseHeader( name: string ): string | null {
+		return this.responseHeaders[ name ] || null;
+	}
+
+	public respond( status: number, response: unknown, headers: Record<string, string> = {} ): void {
+		this.status = status;
+		this.response = response;
+		this.responseHeaders = headers;
+		this.dispatchEvent( new Event( 'load' ) );
+	}
+}
+
+describe( 'FileUploadAdapter', () => {
+	const originalXMLHttpRequest = window.XMLHttpRequest;
+	let domElement: HTMLElement, editor: ClassicEditor;
+
+	beforeEach( async () => {
+		domElement = document.createElement( 'div' );
+		document.body.appendChild( domElement );
+		document.cookie = 'csrftoken=secret-token';
+
+		XMLHttpRequestMock.requests = [];
+		window.XMLHttpRequest = XMLHttpRequestMock as unknown as typeof XMLHttpRequest;
+
+		editor = await ClassicEditor.create( domElement, {
+			plugins: [
+				Paragraph,
+				Essentials,
+				FileUploader,
+				FileUploadAdapter
+			],
+			fileUploader: {
+				adapter: {
+					uploadUrl: '/api/uploads/',
+					fetchUrl: '/api/fetch/',
+					method: 'PUT',
+					fieldName: 'file',
+					fields: file => ( { title: file.name } ),
+					headers: { 'X-Foo': 'bar' },
+					csrfCookieName: 'csrftoken'
+				}
+			}
+		} );
+	} );
+
+	afterEach( () => {
+		window.XMLHttpRequest = originalXMLHttpRequest;
+		document.cookie = 'csrftoken=; expires=Thu, 01 Jan 1970 00:00:00 GMT';
+		domElement.remove();
+
+		return editor.destroy();
+	} );
+
+	it( 'should be named', () => {
+		expect( FileUploadAdapter.pluginName ).to.equal( 'FileUploadAdapter' );
+	} );
+
+	it( 'should send the file with the configured request options', async () => {
+		const file = new File( [ 'foo' ], 'report.pdf', { type: 'application/pdf' } );
+		const loader = editor.plugins.get( FileRepository ).createLoader( file )!;
+		const promise = loader.upload();
+
+		await loader.file;
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		const request = XMLHttpRequestMock.requests[ 0 ];
+
+		expect( request.method ).to.equal( 'PUT' );
+		expect( request.url ).to.equal( '/api/uploads/' );
+		expect( request.headers ).to.deep.equal( { 'X-Foo': 'bar', 'X-CSRFToken': 'secret-token' } );
+		expect( request.body!.get( 'title' ) ).to.equal( 'report.pdf' );
+		expect( request.body!.get( 'file' ) ).to.be.instanceOf( File );
+
+		request.respond( 201, { url: '/media/report.pdf' } );
+
+		const response = await promise;
+
+		expect( response.urls ).to.deep.equal( { default: '/media/report.pdf' } );
+	} );
+
+	it( 'should reject with the error message from the server', async () => {
+		const file = new File( [ 'foo' ], 'report.pdf', { type: 'application/pdf' } );
+		const loader = editor.plugins.get( FileRepository ).createLoader( file )!;
+		const promise = loader.upload();
+
+		await loader.file;
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		XMLHttpRequestMock.requests[ 0 ].respond( 413, { error: { message: 'File too large.' } } );
+
+		try {
+			await promise;
+			expect.fail( 'The upload should fail.' );
+		} catch ( error ) {
+			expect( error ).to.equal( 'File too large.' );
+		}
+	} );
+
+	it( 'should send the URL of a remote file instead of the file', async () => {
+		const file = createRemoteFile( 'https://example.com/report.pdf', 'report.pdf' );
+		const loader = editor.plugins.get( FileRepository ).createLoader( file )!;
+		const promise = loader.upload();
+
+		// The URL is read from the file asynchronously.
+		while ( !XMLHttpRequestMock.requests.length ) {
+			await new Promise( resolve => setTimeout( resolve, 5 ) );
+		}
+
+		const request = XMLHttpRequestMock.requests[ 0 ];
+
+		expect( request.url ).to.equal( '/api/fetch/' );
+		expect( request.body!.get( 'url' ) ).to.equal( 'https://example.com/report.pdf' );
+		expect( request.body!.has( 'file' ) ).to.be.false;
+
+		request.respond( 201, { url: '/media/report.pdf' } );
+
+		expect( ( await promise ).urls ).to.deep.equal( { default: '/media/report.pdf' } );
+	} );
+
+	it( 'should upload a large file in chunks', async () => {
+		const chunkedEditor = await ClassicEditor.create( document.createElement( 'div' ), {
+			plugins: [ Paragraph, Essentials, FileUploader, FileUploadAdapter ],
+			fileUploader: {
+				adapter: {
+					uploadUrl: '/api/uploads/',
+					chunked: { chunkSize: 4 }
+				}
+			}
+		} );
+
+		const file = new File( [ 'foobar' ], 'report.pdf', { type: 'application/pdf' } );
+		const loader = chunkedEditor.plugins.get( FileRepository ).createLoader( file )!;
+		const promise = loader.upload();
+
+		await loader.file;
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		const firstChunk = XMLHttpRequestMock.requests[ 0 ];
+
+		expect( firstChunk.headers[ 'Content-Range' ] ).to.equal( 'bytes 0-3/6' );
+		expect( ( firstChunk.body!.get( 'upload' ) as File ).size ).to.equal( 4 );
+
+		firstChunk.respond( 200, { offset: 4 } );
+
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		const secondChunk = XMLHttpRequestMock.requests[ 1 ];
+
+		expect( secondChunk.headers[ 'Content-Range' ] ).to.equal( 'bytes 4-5/6' );
+		expect( secondChunk.headers[ 'X-Upload-Id' ] ).to.equal( firstChunk.headers[ 'X-Upload-Id' ] );
+
+		secondChunk.respond( 201, { url: '/media/report.pdf' } );
+
+		const response = await promise;
+
+		expect( response.urls ).to.deep.equal( { default: '/media/report.pdf' } );
+
+		await chunkedEditor.destroy();
+	} );
+
+	it( 'should resume a failed chunked upload of the same file picked again', async () => {
+		const chunkedEditor = await ClassicEditor.create( document.createElement( 'div' ), {
+			plugins: [ Paragraph, Essentials, FileUploader, FileUploadAdapter ],
+			fileUploader: {
+				adapter: {
+					uploadUrl: '/api/uploads/',
+					chunked: { chunkSize: 4 }
+				}
+			}
+		} );
+		const fileRepository = chunkedEditor.plugins.get( FileRepository );
+		const createFile = () => new File( [ 'foobar' ], 'resumed.pdf', { type: 'application/pdf', lastModified: 1000 } );
+
+		const failedPromise = fileRepository.createLoader( createFile() )!.upload();
+
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		XMLHttpRequestMock.requests[ 0 ].respond( 200, { offset: 4 } );
+
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		XMLHttpRequestMock.requests[ 1 ].respond( 500, { error: { message: 'Server error.' } } );
+
+		try {
+			await failedPromise;
+			expect.fail( 'The upload should fail.' );
+		} catch ( error ) {
+			expect( error ).to.equal( 'Server error.' );
+		}
+
+		const promise = fileRepository.createLoader( createFile() )!.upload();
+
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		const offsetRequest = XMLHttpRequestMock.requests[ 2 ];
+
+		expect( offsetRequest.method ).to.equal( 'GET' );
+		expect( offsetRequest.headers[ 'X-Upload-Id' ] ).to.equal( XMLHttpRequestMock.requests[ 0 ].headers[ 'X-Upload-Id' ] );
+
+		offsetRequest.respond( 200, { offset: 4 } );
+
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		expect( XMLHttpRequestMock.requests[ 3 ].headers[ 'Content-Range' ] ).to.equal( 'bytes 4-5/6' );
+
+		XMLHttpRequestMock.requests[ 3 ].respond( 201, { url: '/media/resumed.pdf' } );
+
+		expect( ( await promise ).urls ).to.deep.equal( { default: '/media/resumed.pdf' } );
+
+		await chunkedEditor.destroy();
+	} );
+
+	it( 'should finish a resumed chunked upload without a chunk if the server received the whole file', async () => {
+		const chunkedEditor = await ClassicEditor.create( document.createElement( 'div' ), {
+			plugins: [ Paragraph, Essentials, FileUploader, FileUploadAdapter ],
+			fileUploader: {
+				adapter: {
+					uploadUrl: '/api/uploads/',
+					chunked: { chunkSize: 4 }
+				}
+			}
+		} );
+		const fileRepository = chunkedEditor.plugins.get( FileRepository );
+		const createFile = () => new File( [ 'foobar' ], 'resumed.pdf', { type: 'application/pdf', lastModified: 1000 } );
+
+		const failedPromise = fileRepository.createLoader( createFile() )!.upload();
+
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		XMLHttpRequestMock.requests[ 0 ].respond( 200, { offset: 4 } );
+
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		// The response to the last chunk is lost.
+		XMLHttpRequestMock.requests[ 1 ].dispatchEvent( new Event( 'error' ) );
+
+		try {
+			await failedPromise;
+			expect.fail( 'The upload should fail.' );
+		} catch ( error ) {
+			expect( error ).to.equal( 'Couldn\'t upload file: resumed.pdf.' );
+		}
+
+		const promise = fileRepository.createLoader( createFile() )!.upload();
+
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		XMLHttpRequestMock.requests[ 2 ].respond( 200, { offset: 6 } );
+
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		const finalRequest = XMLHttpRequestMock.requests[ 3 ];
+
+		expect( finalRequest.headers[ 'Content-Range' ] ).to.equal( 'bytes */6' );
+		expect( finalRequest.body!.has( 'upload' ) ).to.be.false;
+
+		finalRequest.respond( 201, { url: '/media/resumed.pdf' } );
+
+		expect( ( await promise ).urls ).to.deep.equal( { default: '/media/resumed.pdf' } );
+		expect( XMLHttpRequestMock.requests.length ).to.equal( 4 );
+
+		await chunkedEditor.destroy();
+	} );
+
+	it( 'should not share the chunked upload of an identical file in progress nor resume an aborted upload', async () => {
+		const chunkedEditor = await ClassicEditor.create( document.createElement( 'div' ), {
+			plugins: [ Paragraph, Essentials, FileUploader, FileUploadAdapter ],
+			fileUploader: {
+				adapter: {
+					uploadUrl: '/api/uploads/',
+					chunked: { chunkSize: 4 }
+				}
+			}
+		} );
+		const fileRepository = chunkedEditor.plugins.get( FileRepository );
+		const createFile = () => new File( [ 'foobar' ], 'shared.pdf', { type: 'application/pdf', lastModified: 1000 } );
+		const firstLoader = fileRepository.createLoader( createFile() )!;
+		const firstPromise = firstLoader.upload().catch( () => {} );
+		const secondPromise = fileRepository.createLoader( createFile() )!.upload().catch( () => {} );
+
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		const [ firstChunk, secondChunk ] = XMLHttpRequestMock.requests;
+
+		expect( firstChunk.headers[ 'Content-Range' ] ).to.equal( 'bytes 0-3/6' );
+		expect( secondChunk.headers[ 'Content-Range' ] ).to.equal( 'bytes 0-3/6' );
+		expect( firstChunk.headers[ 'X-Upload-Id' ] ).to.not.equal( secondChunk.headers[ 'X-Upload-Id' ] );
+
+		firstLoader.abort();
+		secondChunk.respond( 500, null );
+
+		await Promise.all( [ firstPromise, secondPromise ] );
+
+		fileRepository.createLoader( createFile() )!.upload().catch( () => {} );
+
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		const thirdChunk = XMLHttpRequestMock.requests[ 2 ];
+
+		expect( thirdChunk.method ).to.equal( 'POST' );
+		expect( thirdChunk.headers[ 'Content-Range' ] ).to.equal( 'bytes 0-3/6' );
+		expect( thirdChunk.headers[ 'X-Upload-Id' ] ).to.not.equal( firstChunk.headers[ 'X-Upload-Id' ] );
+
+		await chunkedEditor.destroy();
+	} );
+
+	it( 'should upload a file with the tus protocol', async () => {
+		const chunkedEditor = await ClassicEditor.create( document.createElement( 'div' ), {
+			plugins: [ Paragraph, Essentials, FileUploader, FileUploadAdapter ],
+			fileUploader: {
+				adapter: {
+					uploadUrl: '/api/uploads/',
+					chunked: { chunkSize: 4, protocol: 'tus' }
+				}
+			}
+		} );
+
+		const file = new File( [ 'foobar' ], 'report.pdf', { type: 'application/pdf' } );
+		const promise = chunkedEditor.plugins.get( FileRepository ).createLoader( file )!.upload();
+
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		const creation = XMLHttpRequestMock.requests[ 0 ];
+
+		expect( creation.method ).to.equal( 'POST' );
+		expect( creation.url ).to.equal( '/api/uploads/' );
+		expect( creation.headers[ 'Tus-Resumable' ] ).to.equal( '1.0.0' );
+		expect( creation.headers[ 'Upload-Length' ] ).to.equal( '6' );
+		expect( creation.headers[ 'Upload-Metadata' ] ).to.equal( 'filename cmVwb3J0LnBkZg==,filetype YXBwbGljYXRpb24vcGRm' );
+
+		creation.respond( 201, null, { Location: '/api/uploads/abc' } );
+
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		const firstChunk = XMLHttpRequestMock.requests[ 1 ];
+
+		expect( firstChunk.method ).to.equal( 'PATCH' );
+		expect( firstChunk.url ).to.equal( 'https://example.com/api/uploads/abc' );
+		expect( firstChunk.headers[ 'Upload-Offset' ] ).to.equal( '0' );
+		expect( firstChunk.headers[ 'Content-Type' ] ).to.equal( 'application/offset+octet-stream' );
+
+		firstChunk.respond( 204, null, { 'Upload-Offset': '4' } );
+
+		await new Promise( resolve => setTimeout( resolve ) );
+
+		const secondChunk = XMLHttpRequestMock.requests[ 2 ];
+
+		expect( secondChunk.headers[ 'Upload-Offset' ] ).to.equal( '4' );
+
+		secondChunk.respond( 204, null, { 'Upload-Offset': '6' } );
+
+		expect( ( await promise ).urls ).to.deep.equal( { default: 'https://example.com/api/uploads/abc' } );
+		expect( XMLHttpRequestMock.requests.length ).to.equal( 3 );
+
+		await chunkedEditor.destroy();
+	} );
+} );
@@ -0,0 +1,155 @@
+import { expect } from 'chai';
+import { Essentials } from '@ckeditor/ckeditor5-essentials';
+import { Paragraph } from '@ckeditor/ckeditor5-paragraph';
+import { ClassicEditor } from '@ckeditor/ckeditor5-editor-classic';
+import { FileRepository, type UploadAdapter } from '@ckeditor/ckeditor5-upload';
+import type { Element, ViewElement, ViewRange } from '@ckeditor/ckeditor5-engine';
+import { FileUploader } from '../src/index';
+
+describe( 'FileUploadDropTarget', () => {
+	const file = new File( [ 'foo' ], 'report.pdf', { type: 'application/pdf' } );
+
+	let domElement: HTMLElement, editor: ClassicEditor;
+
+	beforeEach( async () => {
+		domElement = document.createElement( 'div' );
+		document.body.appendChild( domElement );
+
+		editor = await ClassicEditor.create( domElement, {
+			plugins: [
+				Paragraph,
+				Essentials,
+				FileUploader
+			]
+		} );
+
+		editor.plugins.get( FileRepository ).createUploadAdapter = (): UploadAdapter => ( {
+			upload: () => new Promise( () => {} ),
+			abort: () => {}
+		} );
+
+		editor.setData( '<p>foo bar</p>' );
+	} );
+
+	afterEach( () => {
+		domElement.remove();
+		return editor.destroy();
+	} );
+
+	function getViewParagraph(): ViewElement {
+		return editor.editing.view.document.getRoot()!.getChild( 0 ) as ViewElement;
+	}
+
+	function getTextRange( offset: number ): ViewRange {
+		const view = editor.editing.view;
+
+		return view.createRange( view.createPositionAt( getViewParagraph().getChild( 0 )!, offset ) );
+	}
+
+	function fireDragging( target: ViewElement, targetRange: ViewRange | null, types: Array<string>, clientY = 0 ): { dropEffect: string } {
+		const dataTransfer = { types: [ 'Files' ], dropEffect: '' };
+
+		editor.editing.view.document.fire( 'dragging', {
+			method: 'dragover',
+			dataTransfer,
+			target,
+			targetRanges: targetRange && [ targetRange ],
+			domEvent: {
+				clientX: 0,
+				clientY,
+				dataTransfer: { items: types.map( type => ( { kind: 'file', type } ) ) }
+			}
+		} );
+
+		return dataTransfer;
+	}
+
+	function getDropTargetPath(): ReadonlyArray<number> | null {
+		const marker = editor.model.markers.get( 'fileDropTarget' );
+
+		return marker && marker.getStart().path;
+	}
+
+	it( 'should show the drop target in the text for the files of the allowed types', () => {
+		const dropTarget = editor.plugins.get( 'FileUploadDropTarget' );
+		const dataTransfer = fireDragging( getViewParagraph(), getTextRange( 3 ), [ 'application/pdf' ] );
+
+		expect( dropTarget.state ).to.equal( 'allowed' );
+		expect( dataTransfer.dropEffect ).to.equal( 'copy' );
+		expect( getDropTargetPath() ).to.deep.equal( [ 0, 3 ] );
+		expect( editor.editing.view.getDomRoot()!.querySelector( '.ck-file-drop-target' ) ).to.not.be.null;
+	} );
+
+	it( 'should not show the drop target for the files of other types', () => {
+		const dataTransfer = fireDragging( getViewParagraph(), getTextRange( 3 ), [ 'text/plain' ] );
+
+		expect( editor.plugins.get( 'FileUploadDropTarget' ).state ).to.equal( 'rejected' );
+		expect( dataTransfer.dropEffect ).to.equal( 'none' );
+		expect( getDropTargetPath() ).to.be.null;
+	} );
+
+	it( 'should not show the drop target where the files cannot be inserted', () => {
+		editor.enableReadOnlyMode( 'test' );
+
+		const dataTransfer = fireDragging( getViewParagraph(), getTextRange( 3 ), [ 'application/pdf' ] );
+
+		expect( editor.plugins.get( 'FileUploadDropTarget' ).state ).to.equal( 'disallowed' );
+		expect( dataTransfer.dropEffect ).to.equal( 'none' );
+		expect( getDropTargetPath() ).to.be.null;
+	} );
+
+	it( 'should show the drop target before or after the hovered widget', () => {
+		editor.setData( '<div class="file-attachment-block"><a class="file-attachment" href="/a.pdf">a.pdf</a></div><p>foo</p>' );
+
+		const view = editor.editing.view;
+		const viewWidget = view.document.getRoot()!.getChild( 0 ) as ViewElement;
+		const rect = view.domConverter.mapViewToDom( viewWidget )!.getBoundingClientRect();
+
+		fireDragging( viewWidget, null, [ 'application/pdf' ], rect.top + 1 );
+
+		expect( getDropTargetPath() ).to.deep.equal( [ 0 ] );
+
+		fireDragging( viewWidget, null, [ 'application/pdf' ], rect.bottom - 1 );
+
+		expect( getDropTargetPath() ).to.deep.equal( [ 1 ] );
+		expect( view.getDomRoot()!.querySelector( '.ck-file-drop-target_block' ) ).to.not.be.null;
+	} );
+
+	it( 'should insert the dropped files at the drop target', () => {
+		fireDragging( getViewParagraph(), getTextRange( 3 ), [ 'application/pdf' ] );
+
+		editor.editing.view.document.fire( 'clipboardInput', {
+			method: 'drop',
+			dataTransfer: {
+				types: [ 'Files' ],
+				files: [ file ],
+				getData: () => ''
+			},
+			target: getViewParagraph(),
+			targetRanges: null,
+			domEvent: { clientX: 0, clientY: 0 }
+		} );
+
+		const fileElement = editor.model.document.getRoot()!.getNodeByPath( [ 0, 3 ] ) as Element;
+
+		expect( fileElement.is( 'element', 'fileAttachmentInline' ) ).to.be.true;
+		expect( fileElement.getAttribute( 'fileName' ) ).to.equal( 'report.pdf' );
+		expect( getDropTargetPath() ).to.be.null;
+		expect( editor.plugins.get( 'FileUploadDropTarget' ).state ).to.be.null;
+	} );
+
+	it( 'should remove the drop target when the files are dragged out of the editor', async () => {
+		const dropTarget = editor.plugins.get( 'FileUploadDropTarget' );
+
+		fireDragging( getViewParagraph(), getTextRange( 3 ), [ 'application/pdf' ] );
+
+		editor.editing.view.document.fire( 'dragleave', {} );
+
+		expect( dropTarget.state ).to.equal( 'allowed' );
+
+		await new Promise( resolve => setTimeout( resolve, 50 ) );
+
+		expect( dropTarget.state ).to.be.null;
+		expect( getDropTargetPath() ).to.be.null;
+	} );
+} );
@@ -0,0 +1,894 @@
+import { expect } from 'chai';
+import { Essentials } from '@ckeditor/ckeditor5-essentials';
+import { Paragraph } from '@ckeditor/ckeditor5-paragraph';
+import { ClassicEditor } from '@ckeditor/ckeditor5-editor-classic';
+import { Image, ImageUpload } from '@ckeditor/ckeditor5-image';
+import { PendingActions } from '@ckeditor/ckeditor5-core';
+import { Notification } from '@ckeditor/ckeditor5-ui';
+import { FileRepository, type FileLoader, type UploadAdapter, type UploadResponse } from '@ckeditor/ckeditor5-upload';
+import type { Element, ViewElement } from '@ckeditor/ckeditor5-engine';
+import { FileUploader, getFileMetadata } from '../src/index';
+import FileUploadEditing from '../src/fileuploadediting';
+
+class UploadAdapterMock implements UploadAdapter {
+	public loader: FileLoader;
+	public resolve!: ( data: UploadResponse ) => void;
+	public reject!: ( error: string ) => void;
+
+	constructor( loader: FileLoader ) {
+		this.loader = loader;
+	}
+
+	public upload(): Promise<UploadResponse> {
+		return new Promise( ( resolve, reject ) => {
+			this.resolve = resolve;
+			this.reject = reject;
+		} );
+	}
+}
+
+describe( 'FileUploadEditing', () => {
+	let domElement: HTMLElement, editor: ClassicEditor, adapters: Array<UploadAdapterMock>;
+
+	beforeEach( async () => {
+		domElement = document.createElement( 'div' );
+		document.body.appendChild( domElement );
+
+		editor = await ClassicEditor.create( domElement, {
+			plugins: [
+				Paragraph,
+				Essentials,
+				FileUploader
+			]
+		} );
+
+		adapters = [];
+
+		editor.plugins.get( FileRepository ).createUploadAdapter = loader => {
+			const adapter = new UploadAdapterMock( loader );
+
+			adapters.push( adapter );
+
+			return adapter;
+		};
+
+		// Do not show the warnings as browser alerts.
+		editor.plugins.get( Notification ).on( 'show:warning', evt => evt.stop(), { priority: 'high' } );
+	} );
+
+	afterEach( () => {
+		domElement.remove();
+		return editor.destroy();
+	} );
+
+	describe( 'schema', () => {
+		it( 'should register the block and inline file attachment elements', () => {
+			const schema = editor.model.schema;
+
+			expect( schema.isObject( 'fileAttachment' ) ).to.be.true;
+			expect( schema.isBlock( 'fileAttachment' ) ).to.be.true;
+			expect( schema.isObject( 'fileAttachmentInline' ) ).to.be.true;
+			expect( schema.isInline( 'fileAttachmentInline' ) ).to.be.true;
+			expect( schema.checkAttribute( 'fileAttachmentInline', 'linkHref' ) ).to.be.true;
+			expect( schema.checkAttribute( 'fileAttachment', 'uploadId' ) ).to.be.true;
+		} );
+	} );
+
+	describe( 'conversion', () => {
+		it( 'should round-trip an inline file attachment', () => {
+			const data = '<p>See <a class="file-attachment" href="/media/report.pdf" data-file-size="2048" ' +
+				'data-file-type="application/pdf">Report.pdf</a> for details.</p>';
+
+			editor.setData( data );
+
+			const fileElement = editor.model.document.getRoot()!.getNodeByPath( [ 0, 4 ] )!;
+
+			expect( fileElement.is( 'element', 'fileAttachmentInline' ) ).to.be.true;
+			expect( fileElement.getAttribute( 'fileName' ) ).to.equal( 'Report.pdf' );
+			expect( fileElement.getAttribute( 'fileSize' ) ).to.equal( 2048 );
+			expect( editor.getData() ).to.equal( data );
+		} );
+
+		it( 'should round-trip a block file attachment', () => {
+			const data = '<div class="file-attachment-block"><a class="file-attachment" href="/media/report.pdf">Report.pdf</a></div>';
+
+			editor.setData( data );
+
+			expect( editor.model.document.getRoot()!.getChild( 0 )!.is( 'element', 'fileAttachment' ) ).to.be.true;
+			expect( editor.getData() ).to.equal( data );
+		} );
+
+		it( 'should render a widget with the file type icon, name and details in the editing view', () => {
+			editor.setData(
+				'<p><a class="file-attachment" href="/a.pdf" data-file-size="2048" data-file-type="application/pdf">a.pdf</a></p>'
+			);
+
+			const viewParagraph = editor.editing.view.document.getRoot()!.getChild( 0 ) as ViewElement;
+			const widget = viewParagraph.getChild( 0 )!;
+
+			if ( !widget.is( 'element' ) ) {
+				return expect.fail( 'The file attachment widget is not rendered.' );
+			}
+
+			const [ icon, name, details ] = Array.from( widget.getChildren() ) as Array<ViewElement>;
+			const nameText = name.getChild( 0 )!;
+			const detailsText = details.getChild( 0 )!;
+
+			expect( widget.hasClass( 'ck-widget' ) ).to.be.true;
+			expect( widget.hasClass( 'ck-file-attachment' ) ).to.be.true;
+			expect( icon.is( 'uiElement' ) ).to.be.true;
+			expect( icon.hasClass( 'ck-file-attachment__icon_pdf' ) ).to.be.true;
+			expect( nameText.is( '$text' ) && nameText.data ).to.equal( 'a.pdf' );
+			expect( detailsText.is( '$text' ) && detailsText.data ).to.equal( 'PDF, 2.0 KB' );
+		} );
+
+		it( 'should use the custom file icons and add the file type class to the data output', async () => {
+			await editor.destroy();
+
+			editor = await ClassicEditor.create( domElement, {
+				plugins: [ Paragraph, Essentials, FileUploader ],
+				fileUploader: {
+					fileIcons: { dwg: '<svg class="dwg"></svg>' },
+					fileTypeClass: true
+				}
+			} );
+
+			editor.setData( '<p><a class="file-attachment" href="/media/plan.dwg">Plan</a></p>' );
+
+			const viewParagraph = editor.editing.view.document.getRoot()!.getChild( 0 ) as ViewElement;
+			const widget = viewParagraph.getChild( 0 )!;
+			const icon = widget.is( 'element' ) && widget.getChild( 0 );
+
+			if ( !icon || !icon.is( 'uiElement' ) ) {
+				return expect.fail( 'The file type icon is not rendered.' );
+			}
+
+			expect( icon.render( document, editor.editing.view.domConverter ).innerHTML ).to.equal( '<svg class="dwg"></svg>' );
+			expect( editor.getData() ).to.equal( '<p><a class="file-attachment file-type-generic" href="/media/plan.dwg">Plan</a></p>' );
+		} );
+	} );
+
+	describe( 'upload', () => {
+		const file = new File( [ 'foo' ], 'report.pdf', { type: 'application/pdf' } );
+
+		function getFileElement(): Element {
+			return editor.model.document.getRoot()!.getChild( 0 ) as Element;
+		}
+
+		function waitFor( condition: () => boolean ): Promise<void> {
+			return new Promise( resolve => {
+				const check = (): void => {
+					if ( condition() ) {
+						resolve();
+					} else {
+						setTimeout( check, 5 );
+					}
+				};
+
+				check();
+			} );
+		}
+
+		it( 'should set the link of the uploaded file', async () => {
+			editor.execute( 'uploadFile', { file } );
+
+			await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+			adapters[ 0 ].resolve( { default: '/media/report.pdf' } );
+
+			await waitFor( () => !getFileElement().hasAttribute( 'uploadId' ) );
+
+			expect( getFileElement().getAttribute( 'linkHref' ) ).to.equal( '/media/report.pdf' );
+		} );
+
+		it( 'should set the attributes mapped from the upload response', async () => {
+			editor.config.set( 'fileUploader.responseMapping', { fileId: 'file.id', fileName: 'file.name' } );
+			editor.execute( 'uploadFile', { file } );
+
+			await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+			adapters[ 0 ].resolve( { urls: { default: '/media/42.pdf' }, file: { id: '42', name: 'Report 2024.pdf' } } );
+
+			await waitFor( () => !getFileElement().hasAttribute( 'uploadId' ) );
+
+			expect( editor.getData() ).to.equal(
+				'<div class="file-attachment-block"><a class="file-attachment" href="/media/42.pdf" data-file-size="3" ' +
+				'data-file-type="application/pdf" data-file-id="42">Report 2024.pdf</a></div>'
+			);
+		} );
+
+		it( 'should convert the mapped file size to a number and leave out an invalid one', async () => {
+			editor.config.set( 'fileUploader.responseMapping', { fileSize: 'size' } );
+			editor.execute( 'uploadFile', { file: [ file, file ] } );
+
+			const fileElements = Array.from( editor.model.document.getRoot()!.getChildren() ) as Array<Element>;
+
+			await waitFor( () => fileElements.every( fileElement => fileElement.getAttribute( 'uploadStatus' ) == 'uploading' ) );
+
+			adapters[ 0 ].resolve( { default: '/media/report-1.pdf', size: '2048' } );
+			adapters[ 1 ].resolve( { default: '/media/report-2.pdf', size: 'unknown' } );
+
+			await waitFor( () => fileElements.every( fileElement => !fileElement.hasAttribute( 'uploadId' ) ) );
+
+			expect( fileElements[ 0 ].getAttribute( 'fileSize' ) ).to.equal( 2048 );
+			expect( fileElements[ 1 ].getAttribute( 'fileSize' ) ).to.equal( 3 );
+		} );
+
+		it( 'should format the label of the file and replace it with the canonical name from the server', async () => {
+			editor.config.set( 'fileUploader.responseMapping', { fileName: 'name' } );
+			editor.config.set( 'fileUploader.formatLabel', ( { name, size } ) => `${ name.replace( /\.\w+$/, '' ) } (${ size } B)` );
+			editor.execute( 'uploadFile', { file } );
+
+			expect( getFileElement().getAttribute( 'fileName' ) ).to.equal( 'report (3 B)' );
+
+			await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+			adapters[ 0 ].resolve( { default: '/media/report-1.pdf', name: 'report-1.pdf' } );
+
+			await waitFor( () => !getFileElement().hasAttribute( 'uploadId' ) );
+
+			expect( getFileElement().getAttribute( 'fileName' ) ).to.equal( 'report-1 (3 B)' );
+		} );
+
+		it( 'should register a pending action and leave the file out of the data until it is uploaded', async () => {
+			const pendingActions = editor.plugins.get( PendingActions );
+			const fileUploadEditing = editor.plugins.get( 'FileUploadEditing' );
+
+			editor.execute( 'uploadFile', { file } );
+
+			await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+			expect( fileUploadEditing.isUploading ).to.be.true;
+			expect( Array.from( pendingActions ).some( action => action.message.startsWith( 'Uploading "report.pdf"' ) ) ).to.be.true;
+			expect( editor.getData() ).to.equal( '' );
+
+			const settled = fileUploadEditing.uploadsSettled();
+
+			adapters[ 0 ].resolve( { default: '/media/report.pdf' } );
+
+			await settled;
+			await waitFor( () => !pendingActions.hasAny );
+
+			expect( editor.getData() ).to.contain( 'href="/media/report.pdf"' );
+		} );
+
+		it( 'should keep a failed upload in the content and retry it', async () => {
+			editor.execute( 'uploadFile', { file } );
+
+			await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+			const uploadId = getFileElement().getAttribute( 'uploadId' );
+
+			adapters[ 0 ].reject( 'Server error' );
+
+			await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'error' );
+
+			expect( editor.commands.get( 'retryFileUpload' )!.isEnabled ).to.be.true;
+
+			editor.execute( 'retryFileUpload', { uploadId: uploadId as string } );
+
+			await waitFor( () => adapters.length == 2 );
+
+			expect( getFileElement().getAttribute( 'uploadId' ) ).to.not.equal( uploadId );
+			expect( await adapters[ 1 ].loader.file ).to.equal( file );
+
+			await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+			adapters[ 1 ].resolve( { default: '/media/report.pdf' } );
+
+			await waitFor( () => !getFileElement().hasAttribute( 'uploadId' ) );
+
+			expect( getFileElement().hasAttribute( 'uploadStatus' ) ).to.be.false;
+			expect( getFileElement().getAttribute( 'linkHref' ) ).to.equal( '/media/report.pdf' );
+		} );
+
+		it( 'should report the total progress of the file attachment uploads only', async () => {
+			const fileRepository = editor.plugins.get( FileRepository );
+			const fileUploadEditing = editor.plugins.get( 'FileUploadEditing' );
+
+			editor.execute( 'uploadFile', { file } );
+
+			await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+			adapters[ 0 ].loader.uploadTotal = 100;
+			adapters[ 0 ].loader.uploaded = 50;
+
+			// E.g. an image upload.
+			const otherLoader = fileRepository.createLoader( new File( [ 'bar' ], 'photo.png', { type: 'image/png' } ) )!;
+
+			otherLoader.uploadTotal = 100;
+
+			expect( fileRepository.uploadedPercent ).to.equal( 25 );
+			expect( fileUploadEditing.uploadedPercent ).to.equal( 50 );
+
+			fileRepository.destroyLoader( otherLoader );
+		} );
+
+		it( 'should retry a failed upload automatically', async () => {
+			editor.config.set( 'fileUploader.uploadRetries', 1 );
+			editor.config.set( 'fileUploader.uploadRetryDelay', 10 );
+			editor.execute( 'uploadFile', { file } );
+
+			await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+			const pendingActions = editor.plugins.get( PendingActions );
+			let hasNoPendingAction = false;
+
+			pendingActions.on( 'change:hasAny', ( evt, name, hasAny ) => {
+				hasNoPendingAction = hasNoPendingAction || !hasAny;
+			} );
+
+			adapters[ 0 ].reject( 'Server error' );
+
+			await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'error' );
+
+			expect( pendingActions.hasAny ).to.be.true;
+
+			await waitFor( () => adapters.length == 2 && getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+			// The editor stays busy while the retry is scheduled.
+			expect( hasNoPendingAction ).to.be.false;
+
+			expect( await adapters[ 1 ].loader.file ).to.equal( file );
+			expect( editor.plugins.get( 'FileUploadEditing' ).isUploading ).to.be.true;
+
+			adapters[ 1 ].reject( 'Server error' );
+
+			await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'error' );
+			await new Promise( resolve => setTimeout( resolve, 30 ) );
+
+			expect( adapters.length ).to.equal( 2 );
+			expect( getFileElement().getAttribute( 'linkHref' ) ).to.equal( '' );
+		} );
+
+		it( 'should upload a pasted link to a local file', async () => {
+			const html = '<p><a href="data:application/pdf;base64,Zm9v">Report.pdf</a></p>';
+
+			editor.editing.view.document.fire( 'clipboardInput', {
+				method: 'paste',
+				dataTransfer: {
+					types: [ 'text/html' ],
+					files: [],
+					getData: ( type: string ) => type == 'text/html' ? html : ''
+				}
+			} );
+
+			const fileElement = ( getFileElement().getChild( 0 ) as Element );
+
+			expect( fileElement.is( 'element', 'fileAttachmentInline' ) ).to.be.true;
+			expect( fileElement.getAttribute( 'linkHref' ) ).to.equal( '' );
+
+			await waitFor( () => fileElement.getAttribute( 'uploadStatus' ) == 'uploading' );
+
+			expect( fileElement.getAttribute( 'fileSize' ) ).to.equal( 3 );
+
+			adapters[ 0 ].resolve( { default: '/media/report.pdf' } );
+
+			await waitFor( () => !fileElement.hasAttribute( 'uploadId' ) );
+
+			expect( editor.getData() ).to.equal(
+				'<p><a class="file-attachment" href="/media/report.pdf" data-file-size="3" ' +
+				'data-file-type="application/pdf">Report.pdf</a></p>'
+			);
+		} );
+
+		it( 'should not insert the pasted files into the disallowed parents', () => {
+			const file = new File( [ 'foo' ], 'report.pdf', { type: 'application/pdf' } );
+
+			editor.setData( '<p>foo</p>' );
+			editor.config.set( 'fileUploader.disallowedParents', [ 'paragraph' ] );
+
+			editor.editing.view.document.fire( 'clipboardInput', {
+				method: 'paste',
+				dataTransfer: {
+					types: [ 'Files' ],
+					files: [ file ],
+					getData: () => ''
+				}
+			} );
+
+			expect( editor.getData() ).to.equal( '<p>foo</p>' );
+			expect( adapters ).to.be.empty;
+		} );
+
+		it( 'should list the uploads in progress and the failed uploads', async () => {
+			const fileUploadEditing = editor.plugins.get( 'FileUploadEditing' );
+
+			editor.execute( 'uploadFile', { file } );
+
+			await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+			const [ upload ] = fileUploadEditing.getUploads();
+
+			expect( upload.uploadId ).to.equal( getFileElement().getAttribute( 'uploadId' ) );
+			expect( upload.fileElement ).to.equal( getFileElement() );
+			expect( upload.loader ).to.equal( adapters[ 0 ].loader );
+
+			adapters[ 0 ].reject( 'Server error' );
+
+			await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'error' );
+
+			expect( fileUploadEditing.getUploads().map( upload => upload.loader ) ).to.deep.equal( [ null ] );
+		} );
+
+		it( 'should remove the file when its upload is canceled', async () => {
+			editor.execute( 'uploadFile', { file } );
+
+			await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+			editor.execute( 'cancelFileUpload', { uploadId: getFileElement().getAttribute( 'uploadId' ) as string } );
+
+			expect( editor.getData() ).to.equal( '' );
+			expect( editor.plugins.get( FileRepository ).loaders.length ).to.equal( 0 );
+		} );
+
+		describe( 'validateFile', () => {
+			it( 'should upload the file returned by the callback with its metadata', async () => {
+				const strippedFile = new File( [ 'stripped' ], 'report.pdf', { type: 'application/pdf' } );
+
+				editor.config.set( 'fileUploader.validateFile', async () => ( { file: strippedFile, metadata: { source: 'editor' } } ) );
+				editor.execute( 'uploadFile', { file } );
+
+				await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+				expect( await adapters[ 0 ].loader.file ).to.equal( strippedFile );
+				expect( getFileMetadata( strippedFile ) ).to.deep.equal( { source: 'editor' } );
+				expect( getFileElement().getAttribute( 'fileSize' ) ).to.equal( 8 );
+			} );
+
+			it( 'should remove the file rejected by the callback', async () => {
+				const uploadFileCommand = editor.commands.get( 'uploadFile' )!;
+				const rejected: Array<string> = [];
+
+				uploadFileCommand.on( 'uploadRejected', ( evt, { reason, message } ) => {
+					rejected.push( `${ reason }: ${ message }` );
+				} );
+
+				editor.config.set( 'fileUploader.validateFile', () => ( { error: 'Not allowed.' } ) );
+				editor.execute( 'uploadFile', { file } );
+
+				expect( getFileElement().getAttribute( 'fileName' ) ).to.equal( 'report.pdf' );
+
+				await waitFor( () => !editor.plugins.get( FileRepository ).loaders.length );
+
+				expect( rejected ).to.deep.equal( [ 'validateFile: Not allowed.' ] );
+				expect( adapters[ 0 ].loader.status ).to.equal( 'idle' );
+				expect( editor.getData() ).to.equal( '' );
+			} );
+		} );
+
+		describe( 'upload queue', () => {
+			const otherFile = new File( [ 'bar' ], 'invoice.pdf', { type: 'application/pdf' } );
+
+			function getFileElements(): Array<Element> {
+				return Array.from( editor.model.document.getRoot()!.getChildren() )
+					.filter( child => child.is( 'element', 'fileAttachment' ) ) as Array<Element>;
+			}
+
+			beforeEach( () => {
+				editor.config.set( 'fileUploader.maxConcurrentUploads', 1 );
+			} );
+
+			it( 'should queue the uploads above the limit and start them in the insertion order', async () => {
+				editor.execute( 'uploadFile', { file: [ file, otherFile ] } );
+
+				await waitFor( () => getFileElements()[ 0 ].getAttribute( 'uploadStatus' ) == 'uploading' );
+
+				const [ first, second ] = getFileElements();
+
+				expect( first.getAttribute( 'fileName' ) ).to.equal( 'report.pdf' );
+				expect( second.getAttribute( 'uploadStatus' ) ).to.equal( 'queued' );
+				expect( adapters.length ).to.equal( 1 );
+
+				adapters[ 0 ].resolve( { default: '/media/report.pdf' } );
+
+				await waitFor( () => second.getAttribute( 'uploadStatus' ) == 'uploading' );
+
+				expect( adapters.length ).to.equal( 2 );
+				expect( await adapters[ 1 ].loader.file ).to.equal( otherFile );
+			} );
+
+			it( 'should register a pending action for a queued upload', async () => {
+				const pendingActions = editor.plugins.get( PendingActions );
+
+				editor.execute( 'uploadFile', { file: [ file, otherFile ] } );
+
+				await waitFor( () => getFileElements()[ 0 ].getAttribute( 'uploadStatus' ) == 'uploading' );
+
+				const messages = Array.from( pendingActions, action => action.message );
+
+				expect( messages ).to.have.members( [ 'Uploading "report.pdf" (0%).', 'Uploading "invoice.pdf" (0%).' ] );
+
+				adapters[ 0 ].resolve( { default: '/media/report.pdf' } );
+
+				await waitFor( () => !getFileElements()[ 0 ].hasAttribute( 'uploadId' ) );
+
+				expect( Array.from( pendingActions, action => action.message ) ).to.deep.equal( [ 'Uploading "invoice.pdf" (0%).' ] );
+			} );
+
+			it( 'should remove a queued upload from the queue when the file is removed', async () => {
+				const fileRepository = editor.plugins.get( FileRepository );
+
+				editor.execute( 'uploadFile', { file: [ file, otherFile ] } );
+
+				await waitFor( () => getFileElements()[ 0 ].getAttribute( 'uploadStatus' ) == 'uploading' );
+
+				editor.execute( 'undo' );
+
+				expect( getFileElements().length ).to.equal( 0 );
+				expect( fileRepository.loaders.length ).to.equal( 1 );
+
+				editor.execute( 'uploadFile', { file } );
+
+				await waitFor( () => adapters.length == 2 );
+
+				expect( adapters[ 1 ].loader.status ).to.equal( 'uploading' );
+			} );
+
+			it( 'should queue a removed queued upload again when the file is brought back', async () => {
+				const fileRepository = editor.plugins.get( FileRepository );
+
+				editor.setData( '<p>foo</p><p>bar</p>' );
+				editor.execute( 'uploadFile', { file } );
+
+				await waitFor( () => getFileElements()[ 0 ].getAttribute( 'uploadStatus' ) == 'uploading' );
+
+				editor.model.change( writer => {
+					writer.setSelection( editor.model.document.getRoot()!.getChild( 2 )!, 0 );
+				} );
+				editor.execute( 'uploadFile', { file: otherFile } );
+
+				// The file is kept when the loader provides it.
+				await new Promise( resolve => setTimeout( resolve ) );
+
+				const uploadId = getFileElements()[ 1 ].getAttribute( 'uploadId' );
+
+				expect( getFileElements()[ 1 ].getAttribute( 'uploadStatus' ) ).to.equal( 'queued' );
+
+				editor.execute( 'undo' );
+
+				expect( getFileElements().length ).to.equal( 1 );
+				expect( fileRepository.loaders.length ).to.equal( 1 );
+
+				editor.execute( 'redo' );
+
+				const second = getFileElements()[ 1 ];
+
+				expect( second.getAttribute( 'uploadStatus' ) ).to.equal( 'queued' );
+				expect( second.getAttribute( 'uploadId' ) ).to.not.equal( uploadId );
+				expect( fileRepository.loaders.has( second.getAttribute( 'uploadId' ) as string ) ).to.be.true;
+
+				adapters[ 0 ].resolve( { default: '/media/report.pdf' } );
+
+				await waitFor( () => second.getAttribute( 'uploadStatus' ) == 'uploading' );
+
+				expect( await adapters[ 1 ].loader.file ).to.equal( otherFile );
+			} );
+		} );
+
+		describe( 'deduplication', () => {
+			const fileHash = '2c26b46b68ffc68ff99b453c1d30413413422d706483bfa0f98a5e886266e7ae';
+
+			function getFileElements(): Array<Element> {
+				return Array.from( editor.model.document.getRoot()!.getChildren() )
+					.filter( child => child.is( 'element', 'fileAttachment' ) ) as Array<Element>;
+			}
+
+			it( 'should reuse the upload of an identical file', async () => {
+				editor.config.set( 'fileUploader.deduplicateFiles', true );
+				editor.execute( 'uploadFile', { file } );
+
+				await waitFor( () => !!adapters.length && !!adapters[ 0 ].resolve );
+
+				adapters[ 0 ].resolve( { default: '/media/report.pdf' } );
+
+				await waitFor( () => !getFileElement().hasAttribute( 'uploadId' ) );
+
+				editor.execute( 'uploadFile', { file: new File( [ 'foo' ], 'copy.pdf', { type: 'application/pdf' } ) } );
+
+				await waitFor( () => {
+					const fileElements = getFileElements();
+
+					return fileElements.length == 2 && !fileElements.some( element => element.hasAttribute( 'uploadId' ) );
+				} );
+
+				expect( getFileElements().map( element => element.getAttribute( 'linkHref' ) ) ).to.deep.equal( [
+					'/media/report.pdf', '/media/report.pdf'
+				] );
+				expect( adapters.filter( adapter => adapter.resolve ).length ).to.equal( 1 );
+			} );
+
+			it( 'should upload an identical file again after the uploaded file was removed', async () => {
+				editor.config.set( 'fileUploader.deduplicateFiles', true );
+				editor.execute( 'uploadFile', { file } );
+
+				await waitFor( () => !!adapters.length && !!adapters[ 0 ].resolve );
+
+				adapters[ 0 ].resolve( { default: '/media/report.pdf' } );
+
+				await waitFor( () => !getFileElement().hasAttribute( 'uploadId' ) );
+
+				editor.model.change( writer => writer.remove( getFileElement() ) );
+				editor.execute( 'uploadFile', { file: new File( [ 'foo' ], 'copy.pdf', { type: 'application/pdf' } ) } );
+
+				await waitFor( () => adapters.length == 2 && !!adapters[ 1 ].resolve );
+
+				adapters[ 1 ].resolve( { default: '/media/copy.pdf' } );
+
+				await waitFor( () => !getFileElement().hasAttribute( 'uploadId' ) );
+
+				expect( getFileElements().map( element => element.getAttribute( 'linkHref' ) ) ).to.deep.equal( [ '/media/copy.pdf' ] );
+			} );
+
+			it( 'should not take an upload slot while waiting for the upload of an identical file', async () => {
+				const copy = new File( [ 'foo' ], 'copy.pdf', { type: 'application/pdf' } );
+				const otherFile = new File( [ 'bar' ], 'invoice.pdf', { type: 'application/pdf' } );
+
+				editor.config.set( 'fileUploader.deduplicateFiles', true );
+				editor.config.set( 'fileUploader.maxConcurrentUploads', 2 );
+				editor.execute( 'uploadFile', { file: [ file, copy, otherFile ] } );
+
+				await waitFor( () => adapters.length == 3 && !!adapters[ 0 ].resolve && !!adapters[ 2 ].resolve );
+
+				expect( adapters[ 1 ].resolve ).to.be.undefined;
+
+				adapters[ 0 ].resolve( { default: '/media/report.pdf' } );
+
+				await waitFor( () => !getFileElements()[ 1 ].hasAttribute( 'uploadId' ) );
+
+				expect( getFileElements()[ 1 ].getAttribute( 'linkHref' ) ).to.equal( '/media/report.pdf' );
+				expect( adapters[ 1 ].loader.uploadedPercent ).to.equal( 100 );
+			} );
+
+			it( 'should not upload a file found on the server by its hash', async () => {
+				const hashes: Array<string> = [];
+
+				editor.config.set( 'fileUploader.lookupByHash', hash => {
+					hashes.push( hash );
+
+					return Promise.resolve( { default: '/media/existing.pdf' } );
+				} );
+				editor.execute( 'uploadFile', { file } );
+
+				await waitFor( () => !getFileElement().hasAttribute( 'uploadId' ) );
+
+				expect( hashes ).to.deep.equal( [ fileHash ] );
+				expect( getFileElement().getAttribute( 'linkHref' ) ).to.equal( '/media/existing.pdf' );
+				expect( adapters.every( adapter => !adapter.resolve ) ).to.be.true;
+			} );
+
+			it( 'should upload a file larger than the hashing limit without looking it up', async () => {
+				const hashes: Array<string> = [];
+
+				editor.config.set( 'fileUploader.maxHashedFileSize', 2 );
+				editor.config.set( 'fileUploader.lookupByHash', hash => {
+					hashes.push( hash );
+
+					return null;
+				} );
+				editor.execute( 'uploadFile', { file } );
+
+				await waitFor( () => !!adapters.length && !!adapters[ 0 ].resolve );
+
+				expect( hashes ).to.be.empty;
+			} );
+
+			it( 'should not upload a file removed while it is looked up', async () => {
+				let resolveLookup: ( response: null ) => void;
+
+				editor.config.set( 'fileUploader.lookupByHash', () => new Promise( resolve => {
+					resolveLookup = resolve;
+				} ) );
+				editor.execute( 'uploadFile', { file } );
+
+				await waitFor( () => !!resolveLookup );
+
+				editor.execute( 'undo' );
+				resolveLookup!( null );
+
+				await new Promise( resolve => setTimeout( resolve, 20 ) );
+
+				expect( getFileElements() ).to.be.empty;
+				expect( adapters[ 0 ].loader.status ).to.equal( 'aborted' );
+				expect( adapters[ 0 ].resolve ).to.be.undefined;
+			} );
+		} );
+	} );
+
+	describe( 'file attachment commands', () => {
+		const attachmentData = '<div class="file-attachment-block">' +
+			'<a class="file-attachment" href="/media/old.pdf" data-file-size="2048" data-file-renamed="true">Quarterly report</a></div>';
+
+		beforeEach( () => {
+			editor.setData( attachmentData + '<p>foo</p>' );
+			editor.model.change( writer => writer.setSelection( editor.model.document.getRoot()!.getChild( 0 )!, 'on' ) );
+		} );
+
+		it( 'should rename the selected file attachment', () => {
+			const command = editor.commands.get( 'renameFileAttachment' )!;
+
+			editor.setData( '<div class="file-attachment-block">' +
+				'<a class="file-attachment" href="/media/old.pdf">Quarterly report</a></div>' );
+			editor.model.change( writer => writer.setSelection( editor.model.document.getRoot()!.getChild( 0 )!, 'on' ) );
+
+			expect( command.isEnabled ).to.be.true;
+			expect( command.value ).to.equal( 'Quarterly report' );
+
+			editor.execute( 'renameFileAttachment', { newName: 'Annual report' } );
+
+			expect( editor.getData() ).to.equal( '<div class="file-attachment-block">' +
+				'<a class="file-attachment" href="/media/old.pdf" data-file-renamed="true">Annual report</a></div>' );
+		} );
+
+		it( 'should replace the selected file attachment with a new upload keeping its position and label', () => {
+			editor.execute( 'replaceFileAttachment', { file: new File( [ 'foo' ], 'new.pdf', { type: 'application/pdf' } ) } );
+
+			const root = editor.model.document.getRoot()!;
+			const fileElement = root.getChild( 0 ) as Element;
+
+			expect( root.childCount ).to.equal( 2 );
+			expect( fileElement.is( 'element', 'fileAttachment' ) ).to.be.true;
+			expect( fileElement.getAttribute( 'fileName' ) ).to.equal( 'Quarterly report' );
+			expect( fileElement.getAttribute( 'fileRenamed' ) ).to.be.true;
+			expect( fileElement.getAttribute( 'fileSize' ) ).to.equal( 3 );
+			expect( fileElement.hasAttribute( 'uploadId' ) ).to.be.true;
+		} );
+
+		it( 'should label the replacing file with its own name if the replaced file was not renamed', () => {
+			editor.setData( '<div class="file-attachment-block"><a class="file-attachment" href="/media/old_x7Yz.pdf">old.pdf</a></div>' );
+			editor.model.change( writer => writer.setSelection( editor.model.document.getRoot()!.getChild( 0 )!, 'on' ) );
+
+			editor.execute( 'replaceFileAttachment', { file: new File( [ 'foo' ], 'new.pdf', { type: 'application/pdf' } ) } );
+
+			const fileElement = editor.model.document.getRoot()!.getChild( 0 ) as Element;
+
+			expect( fileElement.getAttribute( 'fileName' ) ).to.equal( 'new.pdf' );
+		} );
+
+		it( 'should remove the selected file attachment', () => {
+			const command = editor.commands.get( 'removeFileAttachment' )!;
+
+			expect( command.isEnabled ).to.be.true;
+
+			editor.execute( 'removeFileAttachment' );
+
+			expect( editor.getData() ).to.equal( '<p>foo</p>' );
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'imageHandling', () => {
+		const image = new File( [ 'foo' ], 'photo.png', { type: 'image/png' } );
+		const file = new File( [ 'foo' ], 'report.pdf', { type: 'application/pdf' } );
+
+		async function createEditor( imageHandling: 'image' | 'link' | 'ask' ): Promise<void> {
+			await editor.destroy();
+
+			editor = await ClassicEditor.create( domElement, {
+				plugins: [ Paragraph, Essentials, Image, ImageUpload, FileUploader ],
+				fileUploader: {
+					fileTypes: [ 'pdf', 'png' ],
+					imageHandling
+				}
+			} );
+
+			editor.plugins.get( FileRepository ).createUploadAdapter = loader => new UploadAdapterMock( loader );
+		}
+
+		function getInsertedElements(): Array<string> {
+			return Array.from( editor.model.createRangeIn( editor.model.document.getRoot()! ).getItems() )
+				.filter( item => item.is( 'element' ) && item.name != 'paragraph' )
+				.map( item => ( item as Element ).name );
+		}
+
+		it( 'should insert the images as images and the other files as file attachments', async () => {
+			await createEditor( 'image' );
+
+			expect( editor.plugins.get( 'FileUploadEditing' ).insertFiles( [ image, file ] ) ).to.be.true;
+			expect( getInsertedElements() ).to.have.members( [ 'imageBlock', 'fileAttachment' ] );
+		} );
+
+		it( 'should insert the images as file attachments', async () => {
+			await createEditor( 'link' );
+
+			editor.plugins.get( 'FileUploadEditing' ).insertFiles( [ image, file ] );
+
+			expect( getInsertedElements() ).to.deep.equal( [ 'fileAttachment', 'fileAttachment' ] );
+		} );
+
+		it( 'should insert the images as images if no listener makes the choice', async () => {
+			await editor.destroy();
+
+			editor = await ClassicEditor.create( domElement, {
+				plugins: [ Paragraph, Essentials, Image, ImageUpload, FileUploadEditing ],
+				fileUploader: {
+					fileTypes: [ 'pdf', 'png' ],
+					imageHandling: 'ask'
+				}
+			} );
+
+			editor.plugins.get( FileRepository ).createUploadAdapter = loader => new UploadAdapterMock( loader );
+
+			expect( await editor.plugins.get( FileUploadEditing ).chooseImageHandling( [] ) ).to.be.null;
+
+			editor.plugins.get( FileUploadEditing ).insertFiles( [ image ] );
+
+			await new Promise( resolve => setTimeout( resolve ) );
+
+			expect( getInsertedElements() ).to.deep.equal( [ 'imageBlock' ] );
+		} );
+
+		it( 'should insert the images as chosen', async () => {
+			await createEditor( 'ask' );
+
+			editor.plugins.get( 'FileUploadEditing' ).on( 'chooseImageHandling', evt => {
+				evt.return = Promise.resolve( 'link' );
+				evt.stop();
+			}, { priority: 'highest' } );
+
+			editor.plugins.get( 'FileUploadEditing' ).insertFiles( [ image ] );
+
+			expect( getInsertedElements() ).to.be.empty;
+
+			await new Promise( resolve => setTimeout( resolve ) );
+
+			expect( getInsertedElements() ).to.deep.equal( [ 'fileAttachment' ] );
+		} );
+
+		it( 'should insert the images where they were pasted when the choice is made', async () => {
+			await createEditor( 'ask' );
+
+			let choose: ( choice: 'image' | 'link' ) => void;
+
+			editor.plugins.get( 'FileUploadEditing' ).on( 'chooseImageHandling', evt => {
+				evt.return = new Promise( resolve => {
+					choose = resolve;
+				} );
+				evt.stop();
+			}, { priority: 'highest' } );
+
+			editor.setData( '<p>foo</p><p>bar</p>' );
+			editor.model.change( writer => {
+				writer.setSelection( editor.model.document.getRoot()!.getChild( 1 )!, 'end' );
+			} );
+
+			editor.plugins.get( 'FileUploadEditing' ).insertFiles( [ image ] );
+
+			editor.model.change( writer => {
+				writer.setSelection( editor.model.document.getRoot()!.getChild( 0 )!, 0 );
+			} );
+
+			choose!( 'link' );
+
+			await new Promise( resolve => setTimeout( resolve ) );
+
+			const paragraph = editor.model.document.getRoot()!.getChild( 1 ) as Element;
+
+			expect( getInsertedElements() ).to.deep.equal( [ 'fileAttachmentInline' ] );
+			expect( paragraph.getChild( 1 )!.is( 'element', 'fileAttachmentInline' ) ).to.be.true;
+		} );
+
+		it( 'should not insert the images if the choice fails', async () => {
+			await createEditor( 'ask' );
+
+			editor.plugins.get( 'FileUploadEditing' ).on( 'chooseImageHandling', evt => {
+				evt.return = Promise.reject( new Error( 'The dialog cannot be shown.' ) );
+				evt.stop();
+			}, { priority: 'highest' } );
+
+			editor.plugins.get( 'FileUploadEditing' ).insertFiles( [ image ] );
+
+			await new Promise( resolve => setTimeout( resolve ) );
+
+			expect( getInsertedElements() ).to.be.empty;
+		} );
+
+		it( 'should not insert the files of other types', async () => {
+			await createEditor( 'image' );
+
+			const text = new File( [ 'foo' ], 'notes.txt', { type: 'text/plain' } );
+
+			expect( editor.plugins.get( 'FileUploadEditing' ).insertFiles( [ text ] ) ).to.be.false;
+		} );
+	} );
+} );
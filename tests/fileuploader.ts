@@ -3,6 +3,7 @@ import { Essentials } from '@ckeditor/ckeditor5-essentials';
 import { Paragraph } from '@ckeditor/ckeditor5-paragraph';
 import { Heading } from '@ckeditor/ckeditor5-heading';
 import { ClassicEditor } from '@ckeditor/ckeditor5-editor-classic';
+import { ButtonView } from '@ckeditor/ckeditor5-ui';
 import { FileUploader } from '../src/index';
 
 describe( 'FileUploader', () => {
@@ -54,5 +55,31 @@ describe( 'FileUploader', () => {
 
 			expect( editor.getData() ).to.equal( '' );
 		} );
+
+		it( 'should enable the download button only for the files with a safe link', () => {
+			const button = editor.ui.componentFactory.create( 'downloadFileAttachment' );
+
+			if ( !( button instanceof ButtonView ) ) {
+				throw new Error( 'The download button is not a button.' );
+			}
+
+			const selectFile = ( href: string ) => {
+				editor.setData( `<div class="file-attachment-block"><a class="file-attachment" href="${ href }">report.pdf</a></div>` );
+				editor.model.change( writer => writer.setSelection( editor.model.document.getRoot()!.getChild( 0 )!, 'on' ) );
+				editor.ui.update();
+			};
+
+			selectFile( '/media/report.pdf' );
+			expect( button.isEnabled ).to.be.true;
+
+			selectFile( 'https://example.com/media/report.pdf' );
+			expect( button.isEnabled ).to.be.true;
+
+			selectFile( 'javascript:alert(1)' );
+			expect( button.isEnabled ).to.be.false;
+
+			selectFile( 'data:text/html,<script>alert(1)</script>' );
+			expect( button.isEnabled ).to.be.false;
+		} );
 	} );
 } );
@@ -0,0 +1,233 @@
+import { expect } from 'chai';
+import { Essentials } from '@ckeditor/ckeditor5-essentials';
+import { Paragraph } from '@ckeditor/ckeditor5-paragraph';
+import { ClassicEditor } from '@ckeditor/ckeditor5-editor-classic';
+import { Notification } from '@ckeditor/ckeditor5-ui';
+import { FileRepository, type FileLoader, type UploadAdapter, type UploadResponse } from '@ckeditor/ckeditor5-upload';
+import type { Element } from '@ckeditor/ckeditor5-engine';
+import { FileUploader, FileUploadPersistence, IndexedDBFileUploadStorage } from '../src/index';
+
+class UploadAdapterMock implements UploadAdapter {
+	public loader: FileLoader;
+	public resolve!: ( data: UploadResponse ) => void;
+	public reject!: ( error: string ) => void;
+
+	constructor( loader: FileLoader ) {
+		this.loader = loader;
+	}
+
+	public upload(): Promise<UploadResponse> {
+		return new Promise( ( resolve, reject ) => {
+			this.resolve = resolve;
+			this.reject = reject;
+		} );
+	}
+}
+
+describe( 'FileUploadPersistence', () => {
+	const file = new File( [ 'foo' ], 'report.pdf', { type: 'application/pdf' } );
+
+	let domElement: HTMLElement, editor: ClassicEditor, adapters: Array<UploadAdapterMock>, files: Map<string, File>;
+
+	beforeEach( async () => {
+		domElement = document.createElement( 'div' );
+		document.body.appendChild( domElement );
+
+		files = new Map();
+
+		editor = await ClassicEditor.create( domElement, {
+			plugins: [
+				Paragraph,
+				Essentials,
+				FileUploader,
+				FileUploadPersistence
+			],
+			fileUploader: {
+				persistence: {
+					// An in-memory stand-in of the IndexedDB storage.
+					storage: {
+						get: uploadId => Promise.resolve( files.get( uploadId ) ),
+						set: async ( uploadId, file ) => {
+							files.set( uploadId, file );
+						},
+						delete: async uploadId => {
+							files.delete( uploadId );
+						}
+					}
+				}
+			}
+		} );
+
+		adapters = [];
+
+		editor.plugins.get( FileRepository ).createUploadAdapter = loader => {
+			const adapter = new UploadAdapterMock( loader );
+
+			adapters.push( adapter );
+
+			return adapter;
+		};
+
+		// Do not show the warnings as browser alerts.
+		editor.plugins.get( Notification ).on( 'show:warning', evt => evt.stop(), { priority: 'high' } );
+
+		editor.plugins.get( FileUploadPersistence ).isOnline = true;
+	} );
+
+	afterEach( () => {
+		domElement.remove();
+		return editor.destroy();
+	} );
+
+	function getFileElement(): Element {
+		return editor.model.document.getRoot()!.getChild( 0 ) as Element;
+	}
+
+	function waitFor( condition: () => boolean ): Promise<void> {
+		return new Promise( resolve => {
+			const check = (): void => {
+				if ( condition() ) {
+					resolve();
+				} else {
+					setTimeout( check, 5 );
+				}
+			};
+
+			check();
+		} );
+	}
+
+	it( 'should store the file of a pending upload and keep the file attachment in the data', async () => {
+		editor.execute( 'uploadFile', { file } );
+
+		await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+		const uploadId = getFileElement().getAttribute( 'uploadId' ) as string;
+
+		expect( files.get( uploadId ) ).to.equal( file );
+		expect( editor.getData() ).to.contain( `data-upload-id="${ uploadId }"` );
+
+		adapters[ 0 ].resolve( { default: '/media/report.pdf' } );
+
+		await waitFor( () => !getFileElement().hasAttribute( 'uploadId' ) );
+
+		expect( files.size ).to.equal( 0 );
+		expect( editor.getData() ).to.not.contain( 'data-upload-id' );
+	} );
+
+	it( 'should remove the file of a removed file attachment and store it again on undo', async () => {
+		editor.execute( 'uploadFile', { file } );
+
+		await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+		const uploadId = getFileElement().getAttribute( 'uploadId' ) as string;
+
+		adapters[ 0 ].reject( 'Upload failed.' );
+
+		await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'error' );
+
+		editor.model.change( writer => {
+			writer.remove( getFileElement() );
+		} );
+
+		expect( files.has( uploadId ) ).to.be.false;
+
+		editor.execute( 'undo' );
+
+		expect( files.get( uploadId ) ).to.equal( file );
+	} );
+
+	it( 'should wait for the connection with an upload failed offline', async () => {
+		const persistence = editor.plugins.get( FileUploadPersistence );
+
+		persistence.isOnline = false;
+
+		editor.execute( 'uploadFile', { file } );
+
+		await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+		const uploadId = getFileElement().getAttribute( 'uploadId' ) as string;
+
+		adapters[ 0 ].reject( 'Network error.' );
+
+		await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'pending-offline' );
+
+		expect( files.get( uploadId ) ).to.equal( file );
+
+		persistence.isOnline = true;
+
+		await waitFor( () => adapters.length == 2 );
+
+		const newUploadId = getFileElement().getAttribute( 'uploadId' ) as string;
+
+		expect( newUploadId ).to.not.equal( uploadId );
+		expect( files.has( uploadId ) ).to.be.false;
+		expect( files.get( newUploadId ) ).to.equal( file );
+	} );
+
+	it( 'should resume the upload of a file attachment restored with the data', async () => {
+		files.set( 'abc', file );
+
+		editor.setData( '<div class="file-attachment-block"><a class="file-attachment" href="" data-upload-id="abc">report.pdf</a></div>' );
+
+		await waitFor( () => adapters.length == 1 );
+
+		expect( await adapters[ 0 ].loader.file ).to.equal( file );
+		expect( getFileElement().getAttribute( 'uploadId' ) ).to.equal( adapters[ 0 ].loader.id );
+
+		adapters[ 0 ].resolve( { default: '/media/report.pdf' } );
+
+		await waitFor( () => !getFileElement().hasAttribute( 'uploadId' ) );
+
+		expect( getFileElement().getAttribute( 'linkHref' ) ).to.equal( '/media/report.pdf' );
+		expect( files.size ).to.equal( 0 );
+	} );
+
+	it( 'should keep a file attachment restored offline until the connection is back', async () => {
+		const persistence = editor.plugins.get( FileUploadPersistence );
+
+		persistence.isOnline = false;
+		files.set( 'abc', file );
+
+		editor.setData( '<p><a class="file-attachment" href="" data-upload-id="abc">report.pdf</a></p>' );
+
+		const fileElement = editor.model.document.getRoot()!.getNodeByPath( [ 0, 0 ] ) as Element;
+
+		await waitFor( () => fileElement.getAttribute( 'uploadStatus' ) == 'pending-offline' );
+
+		expect( editor.plugins.get( 'FileUploadEditing' ).getUploads().map( ( { uploadId } ) => uploadId ) ).to.deep.equal( [ 'abc' ] );
+		expect( adapters ).to.be.empty;
+
+		persistence.isOnline = true;
+
+		await waitFor( () => adapters.length == 1 );
+	} );
+
+	it( 'should remove a restored file attachment whose file is not stored', async () => {
+		editor.setData( '<div class="file-attachment-block"><a class="file-attachment" href="" data-upload-id="abc">report.pdf</a></div>' );
+
+		await waitFor( () => getFileElement().is( 'element', 'paragraph' ) );
+
+		expect( adapters ).to.be.empty;
+	} );
+
+	describe( 'IndexedDBFileUploadStorage', () => {
+		it( 'should store the files in IndexedDB', async () => {
+			const storage = new IndexedDBFileUploadStorage( 'ckeditor5-file-uploads-test' );
+
+			await storage.set( 'abc', file );
+
+			const storedFile = await storage.get( 'abc' );
+
+			expect( storedFile!.name ).to.equal( 'report.pdf' );
+			expect( await storedFile!.text() ).to.equal( 'foo' );
+
+			await storage.delete( 'abc' );
+
+			expect( await storage.get( 'abc' ) ).to.be.undefined;
+
+			storage.close();
+			indexedDB.deleteDatabase( 'ckeditor5-file-uploads-test' );
+		} );
+	} );
+} );
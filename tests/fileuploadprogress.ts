@@ -0,0 +1,164 @@
+import { expect } from 'chai';
+import { Essentials } from '@ckeditor/ckeditor5-essentials';
+import { Paragraph } from '@ckeditor/ckeditor5-paragraph';
+import { ClassicEditor } from '@ckeditor/ckeditor5-editor-classic';
+import { Notification } from '@ckeditor/ckeditor5-ui';
+import { FileRepository, type FileLoader, type UploadAdapter, type UploadResponse } from '@ckeditor/ckeditor5-upload';
+import type { Element } from '@ckeditor/ckeditor5-engine';
+import { FileUploader } from '../src/index';
+
+class UploadAdapterMock implements UploadAdapter {
+	public loader: FileLoader;
+	public resolve!: ( data: UploadResponse ) => void;
+	public reject!: ( error: string ) => void;
+
+	constructor( loader: FileLoader ) {
+		this.loader = loader;
+	}
+
+	public upload(): Promise<UploadResponse> {
+		return new Promise( ( resolve, reject ) => {
+			this.resolve = resolve;
+			this.reject = reject;
+		} );
+	}
+}
+
+describe( 'FileUploadProgress', () => {
+	const file = new File( [ 'foo' ], 'report.pdf', { type: 'application/pdf' } );
+
+	let domElement: HTMLElement, editor: ClassicEditor, adapters: Array<UploadAdapterMock>;
+
+	beforeEach( async () => {
+		domElement = document.createElement( 'div' );
+		document.body.appendChild( domElement );
+
+		editor = await ClassicEditor.create( domElement, {
+			plugins: [
+				Paragraph,
+				Essentials,
+				FileUploader
+			]
+		} );
+
+		adapters = [];
+
+		editor.plugins.get( FileRepository ).createUploadAdapter = loader => {
+			const adapter = new UploadAdapterMock( loader );
+
+			adapters.push( adapter );
+
+			return adapter;
+		};
+
+		// Do not show the warnings as browser alerts.
+		editor.plugins.get( Notification ).on( 'show:warning', evt => evt.stop(), { priority: 'high' } );
+	} );
+
+	afterEach( () => {
+		domElement.remove();
+		return editor.destroy();
+	} );
+
+	function getFileElement(): Element {
+		return editor.model.document.getRoot()!.getChild( 0 ) as Element;
+	}
+
+	function getDomWidget(): HTMLElement {
+		return editor.editing.view.getDomRoot()!.querySelector( '.ck-widget' ) as HTMLElement;
+	}
+
+	function waitFor( condition: () => boolean ): Promise<void> {
+		return new Promise( resolve => {
+			const check = (): void => {
+				if ( condition() ) {
+					resolve();
+				} else {
+					setTimeout( check, 5 );
+				}
+			};
+
+			check();
+		} );
+	}
+
+	it( 'should show the spinner and the cancel button until the upload is started', () => {
+		editor.config.set( 'fileUploader.maxConcurrentUploads', 1 );
+		editor.execute( 'uploadFile', { file: [ file, file ] } );
+
+		const queuedWidget = editor.editing.view.getDomRoot()!.querySelectorAll( '.ck-widget' )[ 1 ];
+
+		expect( queuedWidget.classList.contains( 'ck-file-upload-queued' ) ).to.be.true;
+		expect( queuedWidget.classList.contains( 'ck-file-upload-placeholder' ) ).to.be.true;
+		expect( queuedWidget.querySelector( '.ck-upload-placeholder-loader' ) ).to.not.be.null;
+		expect( queuedWidget.querySelector( '.ck-file-upload-cancel-button' ) ).to.not.be.null;
+	} );
+
+	it( 'should show the progress bar while the file is uploaded', async () => {
+		editor.execute( 'uploadFile', { file } );
+
+		await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+		const loader = adapters[ 0 ].loader;
+
+		expect( getDomWidget().classList.contains( 'ck-file-upload-placeholder' ) ).to.be.false;
+		expect( getDomWidget().querySelector( '.ck-upload-placeholder-loader' ) ).to.be.null;
+		expect( ( getDomWidget().querySelector( '.ck-progress-bar' ) as HTMLElement ).style.width ).to.equal( '0%' );
+
+		loader.uploadTotal = 100;
+		loader.uploaded = 40;
+
+		expect( ( getDomWidget().querySelector( '.ck-progress-bar' ) as HTMLElement ).style.width ).to.equal( '40%' );
+	} );
+
+	it( 'should show the complete icon and stop updating the progress when the file is uploaded', async () => {
+		editor.execute( 'uploadFile', { file } );
+
+		await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+		const loader = adapters[ 0 ].loader;
+
+		adapters[ 0 ].resolve( { default: '/media/report.pdf' } );
+
+		await waitFor( () => !getFileElement().hasAttribute( 'uploadStatus' ) );
+
+		expect( getDomWidget().querySelector( '.ck-progress-bar' ) ).to.be.null;
+		expect( getDomWidget().querySelector( '.ck-file-upload-complete-icon' ) ).to.not.be.null;
+		expect( getDomWidget().querySelector( '.ck-file-upload-cancel-button' ) ).to.be.null;
+
+		let isViewChanged = false;
+
+		editor.editing.view.on( 'render', () => {
+			isViewChanged = true;
+		} );
+
+		loader.uploadTotal = 100;
+		loader.uploaded = 40;
+
+		expect( isViewChanged ).to.be.false;
+	} );
+
+	it( 'should mark a failed upload and retry it with the error marker', async () => {
+		editor.execute( 'uploadFile', { file } );
+
+		await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+		adapters[ 0 ].reject( 'Server error' );
+
+		await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'error' );
+
+		const errorMarker = getDomWidget().querySelector( '.ck-file-upload-error-icon' ) as HTMLElement;
+
+		expect( getDomWidget().classList.contains( 'ck-file-upload-error' ) ).to.be.true;
+		expect( getDomWidget().querySelector( '.ck-progress-bar' ) ).to.be.null;
+		expect( errorMarker ).to.not.be.null;
+
+		errorMarker.click();
+
+		await waitFor( () => getFileElement().getAttribute( 'uploadStatus' ) == 'uploading' );
+
+		expect( adapters.length ).to.equal( 2 );
+		expect( getDomWidget().classList.contains( 'ck-file-upload-error' ) ).to.be.false;
+		expect( getDomWidget().querySelector( '.ck-file-upload-error-icon' ) ).to.be.null;
+	} );
+} );
@@ -0,0 +1,142 @@
+import { expect } from 'chai';
+import { Essentials } from '@ckeditor/ckeditor5-essentials';
+import { Paragraph } from '@ckeditor/ckeditor5-paragraph';
+import { ClassicEditor } from '@ckeditor/ckeditor5-editor-classic';
+import { FileRepository, type FileLoader, type UploadAdapter, type UploadResponse } from '@ckeditor/ckeditor5-upload';
+import type { Element } from '@ckeditor/ckeditor5-engine';
+import { FileUploader, FileUploadAdapter, isRemoteFile } from '../src/index';
+
+class UploadAdapterMock implements UploadAdapter {
+	public loader: FileLoader;
+	public resolve!: ( data: UploadResponse ) => void;
+
+	constructor( loader: FileLoader ) {
+		this.loader = loader;
+	}
+
+	public upload(): Promise<UploadResponse> {
+		return new Promise( resolve => {
+			this.resolve = resolve;
+		} );
+	}
+}
+
+describe( 'InsertFileFromUrlCommand', () => {
+	const url = 'https://example.com/files/report.pdf';
+
+	let domElement: HTMLElement, editor: ClassicEditor, adapters: Array<UploadAdapterMock>;
+
+	beforeEach( async () => {
+		domElement = document.createElement( 'div' );
+		document.body.appendChild( domElement );
+
+		editor = await ClassicEditor.create( domElement, {
+			plugins: [
+				Paragraph,
+				Essentials,
+				FileUploader,
+				FileUploadAdapter
+			],
+			fileUploader: {
+				adapter: {
+					uploadUrl: '/api/uploads/',
+					fetchUrl: '/api/fetch/'
+				}
+			}
+		} );
+
+		adapters = [];
+
+		editor.plugins.get( FileRepository ).createUploadAdapter = loader => {
+			const adapter = new UploadAdapterMock( loader );
+
+			adapters.push( adapter );
+
+			return adapter;
+		};
+	} );
+
+	afterEach( () => {
+		domElement.remove();
+		return editor.destroy();
+	} );
+
+	function getFileElement(): Element {
+		return editor.model.document.getRoot()!.getChild( 0 ) as Element;
+	}
+
+	it( 'should insert a file attachment linking the URL', () => {
+		editor.execute( 'insertFileFromUrl', { url } );
+
+		expect( editor.getData() ).to.equal(
+			'<div class="file-attachment-block">' +
+				'<a class="file-attachment" href="https://example.com/files/report.pdf" data-file-type="application/pdf">report.pdf</a>' +
+			'</div>'
+		);
+	} );
+
+	it( 'should use the custom label of the file', () => {
+		editor.execute( 'insertFileFromUrl', { url, fileName: 'Annual report' } );
+
+		expect( getFileElement().getAttribute( 'fileName' ) ).to.equal( 'Annual report' );
+	} );
+
+	it( 'should not insert the URL of a file of a not allowed type', () => {
+		const command = editor.commands.get( 'insertFileFromUrl' )!;
+
+		expect( command.isAllowedUrl( url ) ).to.be.true;
+		expect( command.isAllowedUrl( 'https://example.com/files/photo.png' ) ).to.be.false;
+		expect( command.isAllowedUrl( 'https://example.com/files/' ) ).to.be.false;
+
+		editor.execute( 'insertFileFromUrl', { url: 'https://example.com/files/photo.png' } );
+
+		expect( editor.getData() ).to.equal( '' );
+	} );
+
+	it( 'should upload a remote file fetched by the server', async () => {
+		editor.config.set( 'fileUploader.urlHandling', 'fetch' );
+
+		editor.execute( 'insertFileFromUrl', { url } );
+
+		expect( getFileElement().getAttribute( 'fileName' ) ).to.equal( 'report.pdf' );
+		expect( getFileElement().getAttribute( 'fileType' ) ).to.equal( 'application/pdf' );
+
+		while ( !adapters.length ) {
+			await new Promise( resolve => setTimeout( resolve, 5 ) );
+		}
+
+		const file = ( await adapters[ 0 ].loader.file )!;
+
+		expect( isRemoteFile( file ) ).to.be.true;
+		expect( await file.text() ).to.equal( url );
+
+		adapters[ 0 ].resolve( { default: '/media/report.pdf' } );
+
+		while ( getFileElement().hasAttribute( 'uploadId' ) ) {
+			await new Promise( resolve => setTimeout( resolve, 5 ) );
+		}
+
+		expect( getFileElement().getAttribute( 'linkHref' ) ).to.equal( '/media/report.pdf' );
+		expect( getFileElement().hasAttribute( 'fileSize' ) ).to.be.false;
+	} );
+
+	it( 'should not apply the size limits to a remote file', () => {
+		editor.config.set( 'fileUploader.urlHandling', 'fetch' );
+		editor.config.set( 'fileUploader.maxFileSize', 1 );
+
+		editor.execute( 'insertFileFromUrl', { url } );
+
+		expect( getFileElement().getAttribute( 'fileName' ) ).to.equal( 'report.pdf' );
+		expect( getFileElement().hasAttribute( 'uploadId' ) ).to.be.true;
+	} );
+
+	it( 'should link the URL if the upload adapter does not fetch the remote files', () => {
+		editor.config.set( 'fileUploader.urlHandling', 'fetch' );
+		editor.config.set( 'fileUploader.adapter.fetchUrl', '' );
+
+		editor.execute( 'insertFileFromUrl', { url } );
+
+		expect( getFileElement().getAttribute( 'linkHref' ) ).to.equal( url );
+		expect( getFileElement().hasAttribute( 'uploadId' ) ).to.be.false;
+	} );
+} );
@@ -0,0 +1,157 @@
+import { expect } from 'chai';
+import { Essentials } from '@ckeditor/ckeditor5-essentials';
+import { Paragraph } from '@ckeditor/ckeditor5-paragraph';
+import { ClassicEditor } from '@ckeditor/ckeditor5-editor-classic';
+import { CodeBlock } from '@ckeditor/ckeditor5-code-block';
+import { FileRepository, type UploadAdapter } from '@ckeditor/ckeditor5-upload';
+import { FileUploader } from '../src/index';
+import type { FileUploadRejectedData } from '../src/uploadfilecommand';
+
+describe( 'UploadFileCommand', () => {
+	let domElement: HTMLElement, editor: ClassicEditor, rejected: Array<FileUploadRejectedData>;
+
+	beforeEach( async () => {
+		domElement = document.createElement( 'div' );
+		document.body.appendChild( domElement );
+
+		editor = await ClassicEditor.create( domElement, {
+			plugins: [
+				Paragraph,
+				Essentials,
+				CodeBlock,
+				FileUploader
+			],
+			fileUploader: {
+				maxFileSize: 100,
+				maxFilesPerInsert: 2,
+				maxTotalSize: 150
+			}
+		} );
+
+		editor.plugins.get( FileRepository ).createUploadAdapter = (): UploadAdapter => ( {
+			upload: () => new Promise( () => {} ),
+			abort: () => {}
+		} );
+
+		rejected = [];
+
+		editor.commands.get( 'uploadFile' )!.on( 'uploadRejected', ( evt, data ) => {
+			rejected.push( data );
+			evt.stop();
+		} );
+	} );
+
+	afterEach( () => {
+		domElement.remove();
+		return editor.destroy();
+	} );
+
+	function createFile( name: string, size: number ): File {
+		return new File( [ new Uint8Array( size ) ], name, { type: 'application/pdf' } );
+	}
+
+	describe( 'refresh()', () => {
+		it( 'should be enabled in a paragraph', () => {
+			editor.setData( '<p>foo</p>' );
+
+			expect( editor.commands.get( 'uploadFile' )!.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be disabled in the read-only mode', () => {
+			editor.enableReadOnlyMode( 'test' );
+
+			expect( editor.commands.get( 'uploadFile' )!.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be disabled without an upload adapter', () => {
+			const command = editor.commands.get( 'uploadFile' )!;
+
+			editor.plugins.get( FileRepository ).createUploadAdapter = undefined;
+			command.refresh();
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be refreshed before the execution when the upload adapter is set later', () => {
+			const command = editor.commands.get( 'uploadFile' )!;
+			const fileRepository = editor.plugins.get( FileRepository );
+			const createUploadAdapter = fileRepository.createUploadAdapter;
+
+			editor.setData( '<p>foo</p>' );
+			fileRepository.createUploadAdapter = undefined;
+			command.refresh();
+			fileRepository.createUploadAdapter = createUploadAdapter;
+
+			editor.execute( 'uploadFile', { file: createFile( 'report.pdf', 10 ) } );
+
+			expect( command.isEnabled ).to.be.true;
+			expect( fileRepository.loaders.length ).to.equal( 1 );
+		} );
+
+		it( 'should be disabled in a code block', () => {
+			editor.setData( '<pre><code class="language-plaintext">foo</code></pre>' );
+
+			expect( editor.commands.get( 'uploadFile' )!.isEnabled ).to.be.false;
+
+			editor.setData( '<pre><code class="language-plaintext"></code></pre>' );
+
+			expect( editor.commands.get( 'uploadFile' )!.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be disabled in the configured disallowed parents', () => {
+			const command = editor.commands.get( 'uploadFile' )!;
+
+			editor.setData( '<p>foo</p>' );
+			editor.config.set( 'fileUploader.disallowedParents', [ 'paragraph' ] );
+			command.refresh();
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be disabled where the schema does not allow a linked file attachment', () => {
+			const command = editor.commands.get( 'uploadFile' )!;
+
+			editor.model.schema.addAttributeCheck( ( context, attributeName ) => {
+				if ( context.endsWith( 'paragraph fileAttachmentInline' ) && attributeName == 'linkHref' ) {
+					return false;
+				}
+			} );
+
+			editor.setData( '<p>foo</p>' );
+
+			expect( command.isEnabled ).to.be.false;
+
+			editor.setData( '<p></p>' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should reject files larger than maxFileSize', () => {
+			const file = createFile( 'big.pdf', 101 );
+
+			editor.execute( 'uploadFile', { file } );
+
+			expect( rejected ).to.have.length( 1 );
+			expect( rejected[ 0 ].file ).to.equal( file );
+			expect( rejected[ 0 ].reason ).to.equal( 'maxFileSize' );
+		} );
+
+		it( 'should reject files above maxFilesPerInsert', () => {
+			editor.execute( 'uploadFile', { file: [ createFile( 'a.pdf', 1 ), createFile( 'b.pdf', 1 ), createFile( 'c.pdf', 1 ) ] } );
+
+			expect( rejected.map( data => data.reason ) ).to.deep.equal( [ 'maxFilesPerInsert' ] );
+			expect( rejected[ 0 ].file.name ).to.equal( 'c.pdf' );
+		} );
+
+		it( 'should reject files exceeding maxTotalSize together with the files in the content', () => {
+			editor.setData( '<p><a class="file-attachment" href="/a.pdf" data-file-size="100">a.pdf</a></p>' );
+
+			editor.execute( 'uploadFile', { file: [ createFile( 'b.pdf', 40 ), createFile( 'c.pdf', 40 ) ] } );
+
+			expect( rejected.map( data => data.file.name ) ).to.deep.equal( [ 'c.pdf' ] );
+			expect( rejected[ 0 ].reason ).to.equal( 'maxTotalSize' );
+		} );
+	} );
+} );
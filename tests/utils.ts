@@ -0,0 +1,127 @@
+import { expect } from 'chai';
+import {
+	computeFileHash,
+	createFileTypeMatcher,
+	getFileTypeAcceptValue,
+	getFileTypeCategory,
+	getUrlFileName,
+	isSafeFileUrl,
+	sanitizeFile,
+	sanitizeFileName
+} from '../src/utils';
+
+describe( 'utils', () => {
+	describe( 'createFileTypeMatcher()', () => {
+		it( 'should match files by the extension and its MIME type', () => {
+			const isAllowedFile = createFileTypeMatcher( [ 'pdf', '.dwg' ] );
+
+			expect( isAllowedFile( new File( [], 'report.PDF' ) ) ).to.be.true;
+			expect( isAllowedFile( new File( [], 'report', { type: 'application/pdf' } ) ) ).to.be.true;
+			expect( isAllowedFile( new File( [], 'plan.dwg' ) ) ).to.be.true;
+			expect( isAllowedFile( new File( [], 'notes.txt', { type: 'text/plain' } ) ) ).to.be.false;
+		} );
+
+		it( 'should match MIME types literally', () => {
+			const isAllowedFile = createFileTypeMatcher( [ 'application/vnd.ms-excel', 'image/svg+xml' ] );
+
+			expect( isAllowedFile( new File( [], 'a', { type: 'application/vnd.ms-excel' } ) ) ).to.be.true;
+			expect( isAllowedFile( new File( [], 'a', { type: 'application/vndxms-excel' } ) ) ).to.be.false;
+			expect( isAllowedFile( new File( [], 'a', { type: 'image/svg+xml' } ) ) ).to.be.true;
+		} );
+
+		it( 'should match MIME types with wildcards', () => {
+			const isAllowedFile = createFileTypeMatcher( [ 'image/*', 'application/vnd.openxmlformats-*' ] );
+
+			expect( isAllowedFile( new File( [], 'a', { type: 'image/png' } ) ) ).to.be.true;
+			expect( isAllowedFile( new File( [], 'a.docx' ) ) ).to.be.true;
+			expect( isAllowedFile( new File( [], 'a', { type: 'application/pdf' } ) ) ).to.be.false;
+		} );
+	} );
+
+	describe( 'getFileTypeAcceptValue()', () => {
+		it( 'should return the accepted extensions and MIME types', () => {
+			expect( getFileTypeAcceptValue( [ 'pdf', '.docx', 'image/*' ] ) ).to.equal( '.pdf,.docx,image/*' );
+		} );
+
+		it( 'should accept all files if a type cannot be expressed', () => {
+			expect( getFileTypeAcceptValue( [ 'pdf', 'application/vnd.openxmlformats-*' ] ) ).to.equal( '' );
+		} );
+	} );
+
+	describe( 'getFileTypeCategory()', () => {
+		it( 'should return the category of the MIME type', () => {
+			expect( getFileTypeCategory( 'application/pdf' ) ).to.equal( 'pdf' );
+			expect( getFileTypeCategory( 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ) ).to.equal( 'word' );
+			expect( getFileTypeCategory( 'text/csv' ) ).to.equal( 'spreadsheet' );
+			expect( getFileTypeCategory( 'application/x-7z-compressed' ) ).to.equal( 'archive' );
+			expect( getFileTypeCategory( 'image/png' ) ).to.equal( 'image' );
+			expect( getFileTypeCategory( 'image/vnd.dwg' ) ).to.equal( 'generic' );
+			expect( getFileTypeCategory( 'audio/mpeg' ) ).to.equal( 'audio' );
+			expect( getFileTypeCategory( 'video/mp4' ) ).to.equal( 'video' );
+			expect( getFileTypeCategory( 'text/plain' ) ).to.equal( 'generic' );
+			expect( getFileTypeCategory( '' ) ).to.equal( 'generic' );
+		} );
+	} );
+
+	describe( 'computeFileHash()', () => {
+		it( 'should return the SHA-256 hash of the file', async () => {
+			expect( await computeFileHash( new File( [ 'foo' ], 'foo.txt' ) ) ).to.equal(
+				'2c26b46b68ffc68ff99b453c1d30413413422d706483bfa0f98a5e886266e7ae'
+			);
+		} );
+	} );
+
+	describe( 'getUrlFileName()', () => {
+		it( 'should return the decoded last segment of the URL path', () => {
+			expect( getUrlFileName( 'https://example.com/files/Annual%20report.pdf?v=2#page=3' ) ).to.equal( 'Annual report.pdf' );
+			expect( getUrlFileName( 'https://example.com/files/' ) ).to.equal( '' );
+		} );
+
+		it( 'should return an empty string for invalid and non-HTTP URLs', () => {
+			expect( getUrlFileName( '/files/report.pdf' ) ).to.equal( '' );
+			expect( getUrlFileName( 'javascript:alert(1)//report.pdf' ) ).to.equal( '' );
+		} );
+	} );
+
+	describe( 'isSafeFileUrl()', () => {
+		it( 'should accept the HTTP(S) and relative URLs', () => {
+			expect( isSafeFileUrl( 'https://example.com/files/report.pdf' ) ).to.be.true;
+			expect( isSafeFileUrl( 'http://example.com/files/report.pdf' ) ).to.be.true;
+			expect( isSafeFileUrl( '/files/report.pdf' ) ).to.be.true;
+			expect( isSafeFileUrl( 'report.pdf' ) ).to.be.true;
+		} );
+
+		it( 'should reject the URLs of other protocols', () => {
+			expect( isSafeFileUrl( 'javascript:alert(1)' ) ).to.be.false;
+			expect( isSafeFileUrl( ' JavaScript:alert(1)' ) ).to.be.false;
+			expect( isSafeFileUrl( 'data:text/html,<script>alert(1)</script>' ) ).to.be.false;
+		} );
+	} );
+
+	describe( 'sanitizeFileName()', () => {
+		it( 'should replace the characters not allowed in file names and trim the name', () => {
+			expect( sanitizeFileName( ' Scan: 2024/03   "final".pdf ' ) ).to.equal( 'Scan_ 2024_03 _final_.pdf' );
+			expect( sanitizeFileName( 'report\u0000.pdf.' ) ).to.equal( 'report_.pdf' );
+			expect( sanitizeFileName( ' .. ' ) ).to.equal( 'file' );
+		} );
+	} );
+
+	describe( 'sanitizeFile()', () => {
+		it( 'should return a renamed file of the same type', () => {
+			const file = new File( [ 'foo' ], 'a:b.pdf', { type: 'application/pdf' } );
+			const sanitizedFile = sanitizeFile( file, true );
+
+			expect( sanitizedFile.name ).to.equal( 'a_b.pdf' );
+			expect( sanitizedFile.type ).to.equal( 'application/pdf' );
+			expect( sanitizedFile.size ).to.equal( 3 );
+		} );
+
+		it( 'should return the same file when the name does not change', () => {
+			const file = new File( [ 'foo' ], 'report.pdf' );
+
+			expect( sanitizeFile( file, true ) ).to.equal( file );
+			expect( sanitizeFile( file, false ) ).to.equal( file );
+			expect( sanitizeFile( file, name => name.toUpperCase() ).name ).to.equal( 'REPORT.PDF' );
+		} );
+	} );
+} );